@@ -0,0 +1,61 @@
+import { ProtocolFeesAdmin, type PoolProtocolFees } from "@/components/protocol-fees";
+import {
+  FeeTier,
+  getContractOwner,
+  getFeeTiers,
+  getGuardian,
+  getPaused,
+  getPauseState,
+  getProtocolFees,
+  getProtocolFeeShare,
+} from "@/lib/amm";
+import { getIndexedPools } from "@/lib/indexer";
+
+export const dynamic = "force-dynamic";
+
+export default async function Admin() {
+  let owner: string | null = null;
+  let guardian: string | null = null;
+  let paused = false;
+  let share = 0;
+  let feeTiers: FeeTier[] = [];
+  let pools: PoolProtocolFees[] = [];
+  let error: string | null = null;
+
+  try {
+    const allPools = await getIndexedPools();
+    [owner, guardian, paused, share, feeTiers, pools] = await Promise.all([
+      getContractOwner(),
+      getGuardian(),
+      getPaused(),
+      getProtocolFeeShare(),
+      getFeeTiers(),
+      Promise.all(
+        allPools.map(async (pool) => {
+          const [fees, pauseState] = await Promise.all([getProtocolFees(pool), getPauseState(pool.id)]);
+          // Amounts cross to the client component as strings, since bigints don't serialize
+          return { pool, amount0: fees.amount0.toString(), amount1: fees.amount1.toString(), pauseState };
+        })
+      ),
+    ]);
+  } catch (err) {
+    console.error("Error fetching protocol fees:", err);
+    error = err instanceof Error ? err.message : "Failed to fetch protocol fees";
+  }
+
+  return (
+    <main className="flex min-h-screen flex-col gap-8 p-4 md:p-24">
+      <h1 className="text-3xl font-bold">Admin</h1>
+
+      {error || !owner || !guardian ? (
+        <div className="bg-red-900 border border-red-700 text-red-100 px-4 py-3 rounded">
+          <p className="font-bold">Error loading protocol fees:</p>
+          <p>{error}</p>
+          <p className="text-sm mt-2">Check the browser console for more details.</p>
+        </div>
+      ) : (
+        <ProtocolFeesAdmin owner={owner} guardian={guardian} paused={paused} share={share} feeTiers={feeTiers} pools={pools} />
+      )}
+    </main>
+  );
+}
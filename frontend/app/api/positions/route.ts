@@ -0,0 +1,20 @@
+import { getCostBasis } from "@/lib/indexer";
+import { validateStacksAddress } from "@stacks/transactions";
+import { NextResponse } from "next/server";
+
+export const dynamic = "force-dynamic";
+
+// Deposit cost basis of each position held by ?owner=, which only the browser knows
+export async function GET(request: Request) {
+  const owner = new URL(request.url).searchParams.get("owner");
+  if (!owner || !validateStacksAddress(owner)) {
+    return NextResponse.json({ error: "A valid owner address is required" }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json(await getCostBasis(owner));
+  } catch (err) {
+    console.error("Error computing cost basis:", err);
+    return NextResponse.json({ error: "Failed to read position history" }, { status: 500 });
+  }
+}
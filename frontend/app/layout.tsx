@@ -3,6 +3,7 @@ import "./globals.css";
 
 import { Inter } from "next/font/google";
 import { Navbar } from "@/components/navbar";
+import { TransactionToasts } from "@/components/transaction-toasts";
 import "regenerator-runtime/runtime";
 
 
@@ -25,6 +26,7 @@ export default function RootLayout({
           <Navbar />
           {children}
         </div>
+        <TransactionToasts />
       </body>
     </html>
   );
@@ -1,10 +1,10 @@
 import { Swap } from "@/components/swap";
-import { getAllPools } from "@/lib/amm";
+import { getIndexedPools } from "@/lib/indexer";
 
 export const dynamic = "force-dynamic";
 
 export default async function Home() {
-  const allPools = await getAllPools();
+  const allPools = await getIndexedPools();
 
   return (
     <main className="flex min-h-screen flex-col items-center gap-8 p-4 md:p-24">
@@ -0,0 +1,65 @@
+import { AddLiquidity } from "@/components/add-liquidity";
+import { PoolDetail } from "@/components/pool-detail";
+import { RemoveLiquidity } from "@/components/remove-liquidity";
+import { SettingsPanel } from "@/components/settings";
+import { Swap } from "@/components/swap";
+import { getPoolById, Pool } from "@/lib/amm";
+import { getEventHistory, getIndexedPool, getPoolVolume, IndexedEvent, PoolVolume } from "@/lib/indexer";
+import { getTokensMetadata, poolTokens, TokenMetadata } from "@/lib/tokens";
+import { notFound } from "next/navigation";
+
+export const dynamic = "force-dynamic";
+
+const RECENT_EVENTS = 25;
+
+export default async function PoolPage({ params }: { params: { id: string } }) {
+  // Pool IDs are hash160s, linked as 0x-prefixed hex
+  const poolId = `0x${params.id.toLowerCase().replace(/^0x/, "")}`;
+  if (!/^0x[0-9a-f]{40}$/.test(poolId)) notFound();
+
+  let pool: Pool | null = null;
+  let metadata: Record<string, TokenMetadata> = {};
+  let events: IndexedEvent[] = [];
+  let volume: PoolVolume | null = null;
+  let error: string | null = null;
+
+  try {
+    // The index can lag a pool created moments ago, so fall back to reading it from the contract
+    pool = (await getIndexedPool(poolId)) ?? (await getPoolById(poolId));
+    if (pool) {
+      [metadata, events, volume] = await Promise.all([
+        getTokensMetadata(poolTokens([pool])),
+        getEventHistory({ poolId, limit: RECENT_EVENTS }),
+        getPoolVolume(poolId),
+      ]);
+    }
+  } catch (err) {
+    console.error("Error fetching pool:", err);
+    error = err instanceof Error ? err.message : "Failed to fetch pool";
+  }
+
+  if (!error && !pool) notFound();
+
+  return (
+    <main className="flex min-h-screen flex-col gap-8 p-4 md:p-24">
+      {error || !pool || !volume ? (
+        <div className="bg-red-900 border border-red-700 text-red-100 px-4 py-3 rounded">
+          <p className="font-bold">Error loading pool:</p>
+          <p>{error}</p>
+          <p className="text-sm mt-2">Check the browser console for more details.</p>
+        </div>
+      ) : (
+        <>
+          <PoolDetail pool={pool} metadata={metadata} events={events} volume={volume} />
+          <hr />
+          <SettingsPanel />
+          <div className="flex justify-center gap-8 flex-col md:flex-row">
+            <Swap pools={[pool]} />
+            <AddLiquidity pools={[pool]} />
+            <RemoveLiquidity pools={[pool]} />
+          </div>
+        </>
+      )}
+    </main>
+  );
+}
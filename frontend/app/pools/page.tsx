@@ -2,16 +2,22 @@ import { AddLiquidity } from "@/components/add-liquidity";
 import { CreatePool } from "@/components/create-pool";
 import { PoolsList } from "@/components/pools";
 import { RemoveLiquidity } from "@/components/remove-liquidity";
-import { getAllPools, Pool } from "@/lib/amm";
+import { SettingsPanel } from "@/components/settings";
+import { FeeTier, getFeeTiers, Pool } from "@/lib/amm";
+import { getIndexedPools } from "@/lib/indexer";
+import { getTokensMetadata, poolTokens, TokenMetadata } from "@/lib/tokens";
 
 export const dynamic = "force-dynamic";
 
 export default async function Pools() {
   let allPools: Pool[] = [];
+  let feeTiers: FeeTier[] = [];
+  let metadata: Record<string, TokenMetadata> = {};
   let error: string | null = null;
 
   try {
-    allPools = await getAllPools();
+    [allPools, feeTiers] = await Promise.all([getIndexedPools(), getFeeTiers()]);
+    metadata = await getTokensMetadata(poolTokens(allPools));
   } catch (err) {
     console.error("Error fetching pools:", err);
     error = err instanceof Error ? err.message : "Failed to fetch pools";
@@ -29,7 +35,7 @@ export default async function Pools() {
         </div>
       ) : (
         <>
-          <PoolsList pools={allPools} />
+          <PoolsList pools={allPools} metadata={metadata} />
           {allPools.length === 0 && (
             <div className="bg-yellow-900 border border-yellow-700 text-yellow-100 px-4 py-3 rounded">
               <p className="font-bold">No pools found</p>
@@ -40,8 +46,9 @@ export default async function Pools() {
       )}
 
       <hr />
+      <SettingsPanel />
       <div className="flex justify-center gap-8 flex-col md:flex-row">
-        <CreatePool />
+        <CreatePool feeTiers={feeTiers} />
         {allPools.length > 0 ? (
           <>
             <AddLiquidity pools={allPools} />
@@ -0,0 +1,33 @@
+import { PositionsList } from "@/components/positions";
+import { Pool } from "@/lib/amm";
+import { getIndexedPools } from "@/lib/indexer";
+
+export const dynamic = "force-dynamic";
+
+export default async function Positions() {
+  let allPools: Pool[] = [];
+  let error: string | null = null;
+
+  try {
+    allPools = await getIndexedPools();
+  } catch (err) {
+    console.error("Error fetching pools:", err);
+    error = err instanceof Error ? err.message : "Failed to fetch pools";
+  }
+
+  return (
+    <main className="flex min-h-screen flex-col gap-8 p-4 md:p-24">
+      <h1 className="text-3xl font-bold">My Positions</h1>
+
+      {error ? (
+        <div className="bg-red-900 border border-red-700 text-red-100 px-4 py-3 rounded">
+          <p className="font-bold">Error loading pools:</p>
+          <p>{error}</p>
+          <p className="text-sm mt-2">Check the browser console for more details.</p>
+        </div>
+      ) : (
+        <PositionsList pools={allPools} />
+      )}
+    </main>
+  );
+}
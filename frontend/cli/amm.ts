@@ -0,0 +1,139 @@
+import { parseArgs } from "node:util";
+import type { CommandContext, CommandResult } from "./commands";
+
+/**
+ * `amm`: script AMM reads and transactions from the command line with the same builders as the app.
+ *
+ *   npm run amm -- <command> [args] [options]
+ *
+ * Reads need no key. Transactions are signed with AMM_PRIVATE_KEY or AMM_MNEMONIC (see cli/signer.ts)
+ * and broadcast to the node, or printed without signing with --dry-run.
+ */
+
+const USAGE = `Usage: amm <command> [args] [options]
+
+Commands:
+  pools list                                 List every pool
+  pool show <pool-id>                        Show a pool's tokens, reserves and pause state
+  quote <token-in> <token-out> <amount>      Quote the best route (amount of token-in, or of token-out with --exact-output)
+  swap <token-in> <token-out> <amount>       Swap along the best route
+  add-liquidity <pool-id> <amount-0> <amount-1>
+                                             Deposit both tokens of a pool
+  remove-liquidity <pool-id> <liquidity>     Withdraw LP units from a pool
+  create-pool <token-a> <token-b> <fee>      Create a pool; fee in basis points, e.g. 30 for 0.3%
+  mint <token> <amount>                      Mint test tokens (mock tokens only)
+  position <pool-id> [address]               Show an address's liquidity in a pool
+
+Tokens are contract principals or token list symbols; amounts are whole tokens.
+
+Options:
+  --network <name>     mainnet, testnet or devnet (default: NEXT_PUBLIC_STACKS_NETWORK or testnet)
+  --node <url>         Stacks API URL to read from and broadcast to (default: NEXT_PUBLIC_STACKS_API_URL)
+  --contract <id>      AMM contract principal (default: NEXT_PUBLIC_AMM_CONTRACT)
+  --slippage <bps>     Slippage tolerance in basis points (default: 50)
+  --deadline <min>     Minutes until the transaction expires, 0 for none (default: 20)
+  --exact-output       quote/swap: the amount is the output to receive
+  --to <address>       mint: recipient (default: the sender)
+  --sender <address>   --dry-run without a key: the account to build the transaction for
+  --dry-run            Print the contract call instead of signing and broadcasting it
+  --json               Print machine-readable JSON
+  -h, --help           Show this help
+
+Environment:
+  AMM_PRIVATE_KEY      Private key that signs transactions
+  AMM_MNEMONIC         Seed phrase, used when AMM_PRIVATE_KEY is unset
+  AMM_ACCOUNT_INDEX    Account of the seed phrase to sign with (default 0)
+`;
+
+function parseCli() {
+  return parseArgs({
+    allowPositionals: true,
+    options: {
+      network: { type: "string" },
+      node: { type: "string" },
+      contract: { type: "string" },
+      slippage: { type: "string" },
+      deadline: { type: "string" },
+      "exact-output": { type: "boolean", default: false },
+      to: { type: "string" },
+      sender: { type: "string" },
+      "dry-run": { type: "boolean", default: false },
+      json: { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+}
+
+// Whole number in [min, max], or the default when the option is absent
+function intOption(value: string | undefined, name: string, min: number, max: number, fallback: number): number {
+  if (value === undefined) return fallback;
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < min || n > max) throw new Error(`--${name} must be a whole number from ${min} to ${max}`);
+  return n;
+}
+
+// BigInts, e.g. base-unit amounts, print as decimal strings
+function toJson(value: unknown): string {
+  return JSON.stringify(value, (_, v) => (typeof v === "bigint" ? v.toString() : v), 2);
+}
+
+async function main(): Promise<number> {
+  let cli: ReturnType<typeof parseCli>;
+  try {
+    cli = parseCli();
+  } catch (err) {
+    console.error(`${(err as Error).message}\n\n${USAGE}`);
+    return 2;
+  }
+  const { values, positionals } = cli;
+  if (values.help || positionals.length === 0) {
+    console.log(USAGE);
+    return values.help ? 0 : 2;
+  }
+
+  // lib/network.ts reads these when it loads, so set them before importing anything that uses it
+  if (values.network) process.env.NEXT_PUBLIC_STACKS_NETWORK = values.network;
+  if (values.node) process.env.NEXT_PUBLIC_STACKS_API_URL = values.node;
+  if (values.contract) process.env.NEXT_PUBLIC_AMM_CONTRACT = values.contract;
+
+  try {
+    const commands = await import("./commands");
+    const { loadSigner } = await import("./signer");
+    const { DEFAULT_SETTINGS } = await import("../lib/settings");
+
+    const ctx: CommandContext = {
+      signer: await loadSigner(),
+      settings: {
+        slippageBps: intOption(values.slippage, "slippage", 0, 5000, DEFAULT_SETTINGS.slippageBps),
+        deadlineMinutes: intOption(values.deadline, "deadline", 0, 4320, DEFAULT_SETTINGS.deadlineMinutes),
+      },
+      dryRun: values["dry-run"],
+      sender: values.sender,
+      exactOutput: values["exact-output"],
+      to: values.to,
+    };
+
+    const [command, ...args] = positionals;
+    let result: CommandResult;
+    if (command === "pools" && args[0] === "list") result = await commands.poolsList();
+    else if (command === "pool" && args[0] === "show") result = await commands.poolShow(args[1]);
+    else if (command === "quote") result = await commands.quote(ctx, args);
+    else if (command === "swap") result = await commands.swap(ctx, args);
+    else if (command === "add-liquidity") result = await commands.addLiquidityCommand(ctx, args);
+    else if (command === "remove-liquidity") result = await commands.removeLiquidityCommand(ctx, args);
+    else if (command === "create-pool") result = await commands.createPoolCommand(ctx, args);
+    else if (command === "mint") result = await commands.mint(ctx, args);
+    else if (command === "position") result = await commands.position(ctx, args);
+    else throw new commands.UsageError(`Unknown command: ${positionals.join(" ")}`);
+
+    console.log(values.json ? toJson(result.data) : result.text.join("\n"));
+    return 0;
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    if (values.json) console.log(toJson({ error: message }));
+    else console.error(`Error: ${message}`);
+    return err instanceof Error && err.name === "UsageError" ? 2 : 1;
+  }
+}
+
+main().then((code) => process.exit(code));
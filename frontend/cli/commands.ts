@@ -0,0 +1,321 @@
+import {
+  addLiquidity,
+  createPool,
+  getAllPools,
+  getPauseState,
+  getPoolById,
+  getTokenDecimals,
+  getUserLiquidity,
+  isPaused,
+  mintToken,
+  Pool,
+  poolReserves,
+  removeLiquidity,
+  swapExactOutput,
+  swapRoute,
+  toBaseUnits,
+  TradeSettings,
+} from "../lib/amm";
+import { applySlippage, applySlippageMax, quoteRemoveLiquidity } from "../lib/amm-math";
+import { findBestExactOutputRoute, findBestRoute, Route, routePrices } from "../lib/router";
+import { getKnownTokens, isContractPrincipal } from "../lib/token-list";
+import {
+  formatTokenAmount,
+  getTokenMetadata,
+  getTokensMetadata,
+  poolLabel,
+  poolTokens,
+  TokenMetadata,
+  tokenSymbol,
+} from "../lib/tokens";
+import { ContractCallOptions, describeContractCall, Signer, signAndBroadcast } from "./signer";
+
+export type CommandContext = {
+  signer: Signer | null;
+  settings: TradeSettings;
+  dryRun: boolean;
+  // Account the dry run is built for when no key is configured
+  sender?: string;
+  exactOutput: boolean;
+  // Mint recipient, defaulting to the sender
+  to?: string;
+};
+
+// What a command prints: `data` with --json, `text` otherwise
+export type CommandResult = { data: unknown; text: string[] };
+
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+function parseAmount(value: string | undefined, name: string): number {
+  const amount = Number(value);
+  if (value === undefined || !Number.isFinite(amount) || amount <= 0) {
+    throw new UsageError(`${name} must be a positive number`);
+  }
+  return amount;
+}
+
+// LP units are u128s, so they're parsed exactly rather than through Number
+function parseLiquidity(value: string | undefined): bigint {
+  if (!value || !/^\d+$/.test(value) || BigInt(value) === 0n) {
+    throw new UsageError("Liquidity must be a positive whole number of LP units");
+  }
+  return BigInt(value);
+}
+
+function parsePoolId(value: string | undefined): string {
+  if (!value || !/^(0x)?[0-9a-f]{40}$/i.test(value)) {
+    throw new UsageError("Pool id must be 20 bytes of hex, as printed by `pools list`");
+  }
+  return `0x${value.replace(/^0x/i, "").toLowerCase()}`;
+}
+
+async function loadPool(id: string | undefined): Promise<Pool> {
+  const poolId = parsePoolId(id);
+  const pool = await getPoolById(poolId);
+  if (!pool) throw new Error(`Pool ${poolId} not found`);
+  return pool;
+}
+
+// A token argument as a contract principal; symbols are looked up among the token list and the tokens of `pools`
+async function resolveToken(value: string | undefined, pools: Pool[] = []): Promise<string> {
+  if (!value) throw new UsageError("Missing token (contract principal or symbol)");
+  if (isContractPrincipal(value)) return value;
+
+  const candidates = new Set([...(await getKnownTokens()).map((token) => token.contract), ...poolTokens(pools)]);
+  const metadata = await getTokensMetadata(Array.from(candidates));
+  const matches = Object.values(metadata).filter((meta) => meta.symbol.toLowerCase() === value.toLowerCase());
+  if (matches.length === 0) throw new UsageError(`Unknown token ${value}; pass its contract principal instead`);
+  if (matches.length > 1) {
+    throw new UsageError(`${value} matches ${matches.map((meta) => meta.contract).join(", ")}; pass the contract principal`);
+  }
+  return matches[0].contract;
+}
+
+// Pools swaps can route through: every pool the guardian hasn't paused
+async function tradablePools(): Promise<Pool[]> {
+  const pools = await getAllPools();
+  const states = await Promise.all(pools.map((pool) => getPauseState(pool.id)));
+  return pools.filter((_, i) => !isPaused(states[i]));
+}
+
+// Post-conditions and positions are built for the signing account, or for --sender in a dry run
+function requireSender(ctx: CommandContext): string {
+  if (ctx.signer) return ctx.signer.address;
+  if (ctx.dryRun && ctx.sender) return ctx.sender;
+  throw new UsageError(
+    ctx.dryRun
+      ? "Set AMM_PRIVATE_KEY or AMM_MNEMONIC, or pass --sender, to build the transaction"
+      : "Set AMM_PRIVATE_KEY or AMM_MNEMONIC to sign transactions"
+  );
+}
+
+// Print the call with --dry-run, otherwise sign and broadcast it
+async function submit(ctx: CommandContext, description: string, options: ContractCallOptions): Promise<CommandResult> {
+  const call = describeContractCall(options);
+  if (ctx.dryRun) {
+    return {
+      data: { dryRun: true, description, call },
+      text: [
+        `Dry run: ${description}`,
+        `${call.contract}::${call.functionName}`,
+        ...call.functionArgs.map((arg) => `  ${arg}`),
+        `Post-conditions (${call.postConditionMode} mode): ${call.postConditions.length}`,
+        ...call.postConditions.map((pc) => `  ${pc}`),
+      ],
+    };
+  }
+  if (!ctx.signer) throw new UsageError("Set AMM_PRIVATE_KEY or AMM_MNEMONIC to sign transactions");
+  const txid = await signAndBroadcast(options, ctx.signer);
+  return { data: { txid, description, call }, text: [description, `Broadcast ${txid}`] };
+}
+
+function poolSummary(pool: Pool, metadata: Record<string, TokenMetadata>) {
+  const token0 = pool["token-0"];
+  const token1 = pool["token-1"];
+  return {
+    ...pool,
+    label: poolLabel(pool, metadata),
+    reserves: `${formatTokenAmount(BigInt(pool["balance-0"]), token0, metadata[token0])} / ${formatTokenAmount(
+      BigInt(pool["balance-1"]),
+      token1,
+      metadata[token1]
+    )}`,
+  };
+}
+
+export async function poolsList(): Promise<CommandResult> {
+  const pools = await getAllPools();
+  const metadata = await getTokensMetadata(poolTokens(pools));
+  const summaries = pools.map((pool) => poolSummary(pool, metadata));
+  return {
+    data: summaries,
+    text: summaries.length
+      ? summaries.map((pool) => `${pool.id}  ${pool.label}  ${pool.reserves}`)
+      : ["No pools found"],
+  };
+}
+
+export async function poolShow(id: string | undefined): Promise<CommandResult> {
+  const pool = await loadPool(id);
+  const [metadata, pauseState] = await Promise.all([
+    getTokensMetadata(poolTokens([pool])),
+    getPauseState(pool.id),
+  ]);
+  const summary = { ...poolSummary(pool, metadata), paused: isPaused(pauseState), pauseState };
+  return {
+    data: summary,
+    text: [
+      summary.label,
+      `Id: ${pool.id}`,
+      `Tokens: ${pool["token-0"]} / ${pool["token-1"]}`,
+      `Reserves: ${summary.reserves}`,
+      `Liquidity: ${pool.liquidity}`,
+      `Swaps and deposits: ${summary.paused ? "paused" : "open"}`,
+    ],
+  };
+}
+
+async function findRoute(ctx: CommandContext, args: string[]) {
+  const pools = await tradablePools();
+  const [tokenIn, tokenOut] = await Promise.all([resolveToken(args[0], pools), resolveToken(args[1], pools)]);
+  const amount = parseAmount(args[2], "Amount");
+  const typedToken = ctx.exactOutput ? tokenOut : tokenIn;
+  const amountBase = toBaseUnits(amount, await getTokenDecimals(typedToken));
+  const route = ctx.exactOutput
+    ? findBestExactOutputRoute(pools, tokenIn, tokenOut, amountBase)
+    : findBestRoute(pools, tokenIn, tokenOut, amountBase);
+  if (!route) {
+    throw new Error(
+      ctx.exactOutput
+        ? "No unpaused pool can pay out that amount"
+        : "No route through unpaused pools has enough liquidity for that amount"
+    );
+  }
+  return { route, amountBase };
+}
+
+function describeRoute(route: Route, ctx: CommandContext, metadata: Record<string, TokenMetadata>) {
+  const format = (amount: bigint, token: string) => formatTokenAmount(amount, token, metadata[token]);
+  const path = [route.tokenIn, ...route.hops.map((hop) => hop.tokenOut)];
+  const quote = {
+    path,
+    fees: route.hops.map((hop) => hop.pool.fee),
+    amountIn: route.amountIn,
+    amountOut: route.amountOut,
+    minOutput: applySlippage(route.amountOut, ctx.settings.slippageBps),
+    maxInput: applySlippageMax(route.amountIn, ctx.settings.slippageBps),
+    priceImpactPct: routePrices(route).priceImpactPct,
+  };
+  return {
+    quote,
+    text: [
+      `Route: ${path.map((token) => tokenSymbol(token, metadata[token])).join(" -> ")} (${quote.fees
+        .map((fee) => `${fee / 100}%`)
+        .join(", ")} fee)`,
+      `Input: ${format(quote.amountIn, route.tokenIn)}`,
+      `Output: ${format(quote.amountOut, route.tokenOut)}`,
+      ctx.exactOutput
+        ? `Maximum sold: ${format(quote.maxInput, route.tokenIn)} (${ctx.settings.slippageBps / 100}% slippage)`
+        : `Minimum received: ${format(quote.minOutput, route.tokenOut)} (${ctx.settings.slippageBps / 100}% slippage)`,
+      `Price impact: ${quote.priceImpactPct.toFixed(2)}%`,
+    ],
+  };
+}
+
+export async function quote(ctx: CommandContext, args: string[]): Promise<CommandResult> {
+  const { route } = await findRoute(ctx, args);
+  const metadata = await getTokensMetadata([route.tokenIn, ...route.hops.map((hop) => hop.tokenOut)]);
+  const { quote, text } = describeRoute(route, ctx, metadata);
+  return { data: quote, text };
+}
+
+export async function swap(ctx: CommandContext, args: string[]): Promise<CommandResult> {
+  const sender = requireSender(ctx);
+  const { route, amountBase } = await findRoute(ctx, args);
+  const metadata = await getTokensMetadata([route.tokenIn, ...route.hops.map((hop) => hop.tokenOut)]);
+  const options = ctx.exactOutput
+    ? await swapExactOutput(route, amountBase, ctx.settings, sender)
+    : await swapRoute(route, ctx.settings, sender);
+  const description = `Swap ${tokenSymbol(route.tokenIn, metadata[route.tokenIn])} for ${tokenSymbol(
+    route.tokenOut,
+    metadata[route.tokenOut]
+  )}`;
+  const result = await submit(ctx, description, options);
+  const { quote, text } = describeRoute(route, ctx, metadata);
+  return { data: { ...(result.data as object), quote }, text: [...text, ...result.text] };
+}
+
+export async function addLiquidityCommand(ctx: CommandContext, args: string[]): Promise<CommandResult> {
+  const sender = requireSender(ctx);
+  const pool = await loadPool(args[0]);
+  const amount0 = parseAmount(args[1], "Token 0 amount");
+  const amount1 = parseAmount(args[2], "Token 1 amount");
+  const metadata = await getTokensMetadata(poolTokens([pool]));
+  const options = await addLiquidity(pool, amount0, amount1, ctx.settings, sender);
+  return submit(ctx, `Add ${poolLabel(pool, metadata)} liquidity`, options);
+}
+
+export async function removeLiquidityCommand(ctx: CommandContext, args: string[]): Promise<CommandResult> {
+  const liquidity = parseLiquidity(args[1]);
+  const pool = await loadPool(args[0]);
+  const metadata = await getTokensMetadata(poolTokens([pool]));
+  const options = await removeLiquidity(pool, liquidity, ctx.settings);
+  return submit(ctx, `Remove ${poolLabel(pool, metadata)} liquidity`, options);
+}
+
+export async function createPoolCommand(ctx: CommandContext, args: string[]): Promise<CommandResult> {
+  const [tokenA, tokenB] = await Promise.all([resolveToken(args[0]), resolveToken(args[1])]);
+  if (tokenA === tokenB) throw new UsageError("A pool needs two different tokens");
+  const fee = Number(args[2]);
+  if (!Number.isInteger(fee) || fee < 0) throw new UsageError("Fee must be a whole number of basis points, e.g. 30");
+  const metadata = await getTokensMetadata([tokenA, tokenB]);
+  const options = await createPool(tokenA, tokenB, fee);
+  return submit(
+    ctx,
+    `Create ${tokenSymbol(tokenA, metadata[tokenA])} / ${tokenSymbol(tokenB, metadata[tokenB])} (${fee / 100}%) pool`,
+    options
+  );
+}
+
+export async function mint(ctx: CommandContext, args: string[]): Promise<CommandResult> {
+  const recipient = ctx.to ?? requireSender(ctx);
+  const token = await resolveToken(args[0]);
+  const amount = parseAmount(args[1], "Amount");
+  const metadata = await getTokenMetadata(token);
+  const amountBase = toBaseUnits(amount, metadata.decimals);
+  const options = await mintToken(token, amountBase, recipient);
+  return submit(ctx, `Mint ${formatTokenAmount(amountBase, token, metadata)} to ${recipient}`, options);
+}
+
+export async function position(ctx: CommandContext, args: string[]): Promise<CommandResult> {
+  const pool = await loadPool(args[0]);
+  const owner = args[1] ?? requireSender(ctx);
+  const [liquidity, metadata] = await Promise.all([
+    getUserLiquidity(pool, owner),
+    getTokensMetadata(poolTokens([pool])),
+  ]);
+  const reserves = poolReserves(pool);
+  const { amount0, amount1 } =
+    liquidity > 0n ? quoteRemoveLiquidity(reserves, liquidity) : { amount0: 0n, amount1: 0n };
+  // In hundredths of a basis point, so the ratio is taken exactly before it becomes a Number
+  const sharePct = reserves.liquidity > 0n ? Number((liquidity * 1_000_000n) / reserves.liquidity) / 10_000 : 0;
+  const token0 = pool["token-0"];
+  const token1 = pool["token-1"];
+  return {
+    data: { pool: pool.id, owner, liquidity, sharePct, amount0, amount1 },
+    text: [
+      `${poolLabel(pool, metadata)} position of ${owner}`,
+      `Liquidity: ${liquidity} (${sharePct.toFixed(4)}% of the pool)`,
+      `Withdrawable: ${formatTokenAmount(amount0, token0, metadata[token0])} + ${formatTokenAmount(
+        amount1,
+        token1,
+        metadata[token1]
+      )}`,
+    ],
+  };
+}
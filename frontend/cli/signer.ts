@@ -0,0 +1,94 @@
+import {
+  AnchorMode,
+  broadcastTransaction,
+  type ClarityValue,
+  cvToString,
+  deserializeCV,
+  getAddressFromPrivateKey,
+  makeContractCall,
+  PostConditionMode,
+  serializePostCondition,
+  type PostCondition,
+} from "@stacks/transactions";
+import { generateNewAccount, generateWallet } from "@stacks/wallet-sdk";
+import { networkConfig } from "../lib/network";
+
+/**
+ * Signing for the `amm` CLI. The key comes from the environment:
+ *   AMM_PRIVATE_KEY    hex private key of the sending account
+ *   AMM_MNEMONIC       seed phrase, used when AMM_PRIVATE_KEY is unset
+ *   AMM_ACCOUNT_INDEX  account of the seed phrase to use (default 0)
+ */
+
+// Contract-call options as returned by the transaction builders in lib/amm.ts
+export type ContractCallOptions = {
+  contractAddress: string;
+  contractName: string;
+  functionName: string;
+  // Builders pass some arguments pre-serialized as hex, for @stacks/connect
+  functionArgs: (ClarityValue | string)[];
+  postConditionMode: PostConditionMode;
+  postConditions: PostCondition[];
+};
+
+export type Signer = { address: string; privateKey: string };
+
+async function loadPrivateKey(): Promise<string | null> {
+  const privateKey = process.env.AMM_PRIVATE_KEY?.trim();
+  if (privateKey) return privateKey;
+  const mnemonic = process.env.AMM_MNEMONIC?.trim();
+  if (!mnemonic) return null;
+
+  const index = Number(process.env.AMM_ACCOUNT_INDEX ?? 0);
+  if (!Number.isInteger(index) || index < 0) throw new Error(`Invalid AMM_ACCOUNT_INDEX: ${process.env.AMM_ACCOUNT_INDEX}`);
+  let wallet = await generateWallet({ secretKey: mnemonic, password: "" });
+  while (wallet.accounts.length <= index) wallet = generateNewAccount(wallet);
+  return wallet.accounts[index].stxPrivateKey;
+}
+
+// The signing account, or null when neither env var is set (enough for reads and dry runs)
+export async function loadSigner(): Promise<Signer | null> {
+  const privateKey = await loadPrivateKey();
+  if (!privateKey) return null;
+  return {
+    address: getAddressFromPrivateKey(privateKey, networkConfig.stacksNetwork.version),
+    privateKey,
+  };
+}
+
+function argValue(arg: ClarityValue | string): ClarityValue {
+  return typeof arg === "string" ? deserializeCV(arg.replace(/^0x/, "")) : arg;
+}
+
+/**
+ * The contract call as plain JSON: arguments in Clarity notation and post-conditions serialized as hex,
+ * the form a `--dry-run` prints.
+ */
+export function describeContractCall(options: ContractCallOptions) {
+  return {
+    contract: `${options.contractAddress}.${options.contractName}`,
+    functionName: options.functionName,
+    functionArgs: options.functionArgs.map((arg) => cvToString(argValue(arg))),
+    postConditionMode: options.postConditionMode === PostConditionMode.Deny ? "deny" : "allow",
+    postConditions: options.postConditions.map((pc) => Buffer.from(serializePostCondition(pc)).toString("hex")),
+  };
+}
+
+/**
+ * Sign the contract call with the signer's key and broadcast it to the configured node.
+ * Returns the transaction id.
+ */
+export async function signAndBroadcast(options: ContractCallOptions, signer: Signer): Promise<string> {
+  const tx = await makeContractCall({
+    ...options,
+    functionArgs: options.functionArgs.map(argValue),
+    senderKey: signer.privateKey,
+    network: networkConfig.stacksNetwork,
+    anchorMode: AnchorMode.Any,
+  });
+  const result = await broadcastTransaction(tx, networkConfig.stacksNetwork);
+  if ("error" in result && result.error) {
+    throw new Error(`Broadcast rejected: ${result.error}${result.reason ? ` (${result.reason})` : ""}`);
+  }
+  return result.txid;
+}
@@ -1,75 +1,216 @@
 "use client";
 
+import { UnlistedTokenNotice } from "@/components/token-select";
+import { usePauseState } from "@/hooks/use-pause-state";
+import { useSettings } from "@/hooks/use-settings";
 import { useStacks } from "@/hooks/use-stacks";
-import { Pool } from "@/lib/amm";
-import { useState } from "react";
+import { useTokenMetadata } from "@/hooks/use-token-metadata";
+import { isPaused, Pool, poolReserves, quoteZapIn } from "@/lib/amm";
+import { applySlippage, ZapQuote } from "@/lib/amm-math";
+import { formatTokenAmount, poolLabel, poolTokens, tokenSymbol } from "@/lib/tokens";
+import { useEffect, useState } from "react";
+
+// Both: the user deposits both tokens at the pool ratio. Single: one token, part of it swapped for the other.
+type DepositMode = "both" | "single";
 
 export interface AddLiquidityProps {
   pools: Pool[];
 }
 
 export function AddLiquidity({ pools }: AddLiquidityProps) {
-  const [selectedPool, setSelectedPool] = useState<Pool>(pools[0]);
+  const [selectedPoolId, setSelectedPoolId] = useState<string>(pools[0].id);
+  // Looked up by id so refreshed pool data replaces the selection's stale reserves
+  const selectedPool = pools.find((pool) => pool.id === selectedPoolId) ?? pools[0];
+  const [mode, setMode] = useState<DepositMode>("both");
   const [amount0, setAmount0] = useState<number>(0);
   const [amount1, setAmount1] = useState<number>(0);
-  const { handleAddLiquidity } = useStacks();
+  // Single-token mode: the amount and which token it is (token-0 when zeroForOne)
+  const [zapAmount, setZapAmount] = useState<number>(0);
+  const [zeroForOne, setZeroForOne] = useState(true);
+  const [zapQuote, setZapQuote] = useState<ZapQuote | null>(null);
+  const [zapError, setZapError] = useState<string | null>(null);
+  const { handleAddLiquidity, handleZapIn } = useStacks();
+  const { settings } = useSettings();
+  const metadata = useTokenMetadata(poolTokens(pools));
+  const pauseState = usePauseState([selectedPool.id])[selectedPool.id];
+  const paused = !!pauseState && isPaused(pauseState);
+
+  const token0 = selectedPool["token-0"];
+  const token1 = selectedPool["token-1"];
+  const format0 = (amount: bigint) => formatTokenAmount(amount, token0, metadata[token0]);
+  const format1 = (amount: bigint) => formatTokenAmount(amount, token1, metadata[token1]);
+
+  useEffect(() => {
+    if (mode !== "single" || zapAmount <= 0) {
+      setZapQuote(null);
+      setZapError(null);
+      return;
+    }
+    let cancelled = false;
+    quoteZapIn(selectedPool, zapAmount, zeroForOne).then(
+      (quote) => {
+        if (cancelled) return;
+        setZapQuote(quote);
+        setZapError(null);
+      },
+      (err) => {
+        if (cancelled) return;
+        setZapQuote(null);
+        setZapError(err instanceof Error ? err.message : "Could not quote the deposit");
+      }
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [mode, selectedPool, zapAmount, zeroForOne]);
+
+  // Share of the pool the deposit would own afterwards
+  const zapSharePct =
+    zapQuote && zapQuote.poolLiquidityAfter > 0n
+      ? (Number(zapQuote.liquidityMinted) / Number(zapQuote.poolLiquidityAfter)) * 100
+      : 0;
 
   return (
     <div className="flex flex-col max-w-md w-full gap-4 p-6 border border-gray-500 rounded-md">
       <h1 className="text-xl font-bold">Add Liquidity</h1>
       <div className="flex flex-col gap-1">
-        <span className="font-bold">Pool ID</span>
+        <span className="font-bold">Pool</span>
         <select
           className="border-2 border-gray-500 rounded-lg px-4 py-2 bg-gray-100 text-black"
-          onChange={(e) => {
-            const poolId = e.target.value;
-            setSelectedPool(pools.find((pool) => pool.id === poolId)!);
-          }}
+          value={selectedPool.id}
+          onChange={(e) => setSelectedPoolId(e.target.value)}
         >
           {pools.map((pool) => (
             <option key={pool.id} value={pool.id}>
-              {pool.id}
+              {poolLabel(pool, metadata)}
             </option>
           ))}
         </select>
+        <UnlistedTokenNotice tokens={[token0, token1]} metadata={metadata} />
       </div>
-      <div className="flex flex-col gap-1">
-        <span className="font-bold">
-          Token 0 ({selectedPool["token-0"].split(".")[1]}) Amount
-        </span>
-        <input
-          type="text"
-          className="border-2 border-gray-500 rounded-lg px-4 py-2 bg-gray-100 text-black"
-          placeholder="Token 0"
-          value={amount0}
-          onChange={(e) => {
-            const v = parseFloat(e.target.value);
-            setAmount0(Number.isFinite(v) && v >= 0 ? v : 0);
-          }}
-        />
-      </div>
-      <div className="flex flex-col gap-1">
-        <span className="font-bold">
-          Token 1 ({selectedPool["token-1"].split(".")[1]}) Amount
-        </span>
-        <input
-          type="text"
-          className="border-2 border-gray-500 rounded-lg px-4 py-2 bg-gray-100 text-black"
-          placeholder="Token 1"
-          value={amount1}
-          onChange={(e) => {
-            const v = parseFloat(e.target.value);
-            setAmount1(Number.isFinite(v) && v >= 0 ? v : 0);
-          }}
-        />
+
+      {paused ? (
+        <div className="bg-red-900 border border-red-700 text-red-100 px-4 py-3 rounded text-sm">
+          Deposits are paused {pauseState.global ? "on every pool" : "on this pool"} while the guardian
+          investigates an issue. You can still remove liquidity.
+        </div>
+      ) : null}
+
+      <div className="flex items-center gap-2">
+        {(["both", "single"] as const).map((m) => (
+          <button
+            key={m}
+            className={`font-medium py-1 px-2 rounded text-black ${
+              mode === m ? "bg-blue-300" : "bg-gray-200 hover:bg-gray-300"
+            }`}
+            onClick={() => setMode(m)}
+          >
+            {m === "both" ? "Both tokens" : "Deposit with one token"}
+          </button>
+        ))}
       </div>
 
-      <button
-        onClick={() => handleAddLiquidity(selectedPool, amount0, amount1)}
-        className="bg-blue-500 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded"
-      >
-        Add Liquidity
-      </button>
+      {mode === "both" ? (
+        <>
+          <div className="flex flex-col gap-1">
+            <span className="font-bold">{tokenSymbol(token0, metadata[token0])} Amount</span>
+            <input
+              type="text"
+              className="border-2 border-gray-500 rounded-lg px-4 py-2 bg-gray-100 text-black"
+              placeholder="Token 0"
+              value={amount0}
+              onChange={(e) => {
+                const v = parseFloat(e.target.value);
+                setAmount0(Number.isFinite(v) && v >= 0 ? v : 0);
+              }}
+            />
+          </div>
+          <div className="flex flex-col gap-1">
+            <span className="font-bold">{tokenSymbol(token1, metadata[token1])} Amount</span>
+            <input
+              type="text"
+              className="border-2 border-gray-500 rounded-lg px-4 py-2 bg-gray-100 text-black"
+              placeholder="Token 1"
+              value={amount1}
+              onChange={(e) => {
+                const v = parseFloat(e.target.value);
+                setAmount1(Number.isFinite(v) && v >= 0 ? v : 0);
+              }}
+            />
+          </div>
+
+          <button
+            onClick={() => handleAddLiquidity(selectedPool, amount0, amount1)}
+            disabled={paused}
+            className="bg-blue-500 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded disabled:bg-gray-700 disabled:cursor-not-allowed"
+          >
+            Add Liquidity
+          </button>
+        </>
+      ) : (
+        <>
+          <div className="flex flex-col gap-1">
+            <span className="font-bold">Deposit</span>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                className="flex-1 border-2 border-gray-500 rounded-lg px-4 py-2 bg-gray-100 text-black"
+                placeholder="Amount"
+                value={zapAmount}
+                onChange={(e) => {
+                  const v = parseFloat(e.target.value);
+                  setZapAmount(Number.isFinite(v) && v >= 0 ? v : 0);
+                }}
+              />
+              <select
+                className="border-2 border-gray-500 rounded-lg px-4 py-2 bg-gray-100 text-black"
+                value={zeroForOne ? "0" : "1"}
+                onChange={(e) => setZeroForOne(e.target.value === "0")}
+              >
+                <option value="0">{tokenSymbol(token0, metadata[token0])}</option>
+                <option value="1">{tokenSymbol(token1, metadata[token1])}</option>
+              </select>
+            </div>
+          </div>
+
+          {poolReserves(selectedPool).liquidity === 0n ? (
+            <p className="text-sm text-gray-400">The first deposit into a pool must include both tokens.</p>
+          ) : null}
+          {zapError ? <p className="text-sm text-red-300">{zapError}</p> : null}
+          {zapQuote ? (
+            <div className="flex flex-col text-sm text-gray-400">
+              <span>
+                Swapped first: {zeroForOne ? format0(zapQuote.swapAmount) : format1(zapQuote.swapAmount)} for{" "}
+                {zeroForOne ? format1(zapQuote.swap.outputAmount) : format0(zapQuote.swap.outputAmount)}
+              </span>
+              <span>
+                Deposited: {format0(zapQuote.amount0)} + {format1(zapQuote.amount1)}
+              </span>
+              {zapQuote.leftover0 > 0n || zapQuote.leftover1 > 0n ? (
+                <span>
+                  Left in your wallet:{" "}
+                  {zapQuote.leftover0 > 0n ? format0(zapQuote.leftover0) : format1(zapQuote.leftover1)}
+                </span>
+              ) : null}
+              <span>
+                LP received: {zapQuote.liquidityMinted.toString()} ({zapSharePct.toFixed(4)}% of the pool)
+              </span>
+              <span>
+                Minimum LP received: {applySlippage(zapQuote.liquidityMinted, settings.slippageBps).toString()} (
+                {settings.slippageBps / 100}% slippage)
+              </span>
+            </div>
+          ) : null}
+
+          <button
+            onClick={() => handleZapIn(selectedPool, zapAmount, zeroForOne)}
+            disabled={!zapQuote || paused}
+            className="bg-blue-500 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded disabled:bg-gray-700 disabled:cursor-not-allowed"
+          >
+            Add Liquidity
+          </button>
+        </>
+      )}
     </div>
   );
-}
\ No newline at end of file
+}
@@ -4,7 +4,7 @@ import { abbreviateAddress } from "@/lib/stx-utils";
 import Link from "next/link";
 
 export function Navbar() {
-  const { userData, connectWallet, disconnectWallet } = useStacks();
+  const { userData, getUserAddress, connectWallet, disconnectWallet } = useStacks();
 
   return (
     <nav className="flex w-full items-center justify-between gap-4 p-4 h-16 border-b border-gray-500">
@@ -19,6 +19,12 @@ export function Navbar() {
         <Link href="/pools" className="text-gray-300 hover:text-gray-50">
           Pools
         </Link>
+        <Link href="/positions" className="text-gray-300 hover:text-gray-50">
+          Positions
+        </Link>
+        <Link href="/admin" className="text-gray-300 hover:text-gray-50">
+          Admin
+        </Link>
       </div>
 
       <div className="flex items-center gap-2">
@@ -28,7 +34,7 @@ export function Navbar() {
               type="button"
               className="rounded-lg bg-blue-500 px-4 py-2 text-sm font-medium text-white hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
             >
-              {abbreviateAddress(userData.profile.stxAddress.testnet)}
+              {abbreviateAddress(getUserAddress() ?? "")}
             </button>
             <button
               type="button"
@@ -0,0 +1,125 @@
+import { TokenLabel } from "@/components/token-label";
+import { Pool } from "@/lib/amm";
+import { formatPrice } from "@/lib/format";
+import type { IndexedEvent, PoolVolume } from "@/lib/indexer";
+import { explorerUrl } from "@/lib/network";
+import { abbreviateAddress } from "@/lib/stx-utils";
+import { formatTokenAmount, TokenMetadata, tokenSymbol } from "@/lib/tokens";
+import Link from "next/link";
+import type { ReactNode } from "react";
+
+export interface PoolDetailProps {
+  pool: Pool;
+  metadata: Record<string, TokenMetadata>; // keyed by token contract
+  events: IndexedEvent[]; // newest first
+  volume: PoolVolume;
+}
+
+export function PoolDetail({ pool, metadata, events, volume }: PoolDetailProps) {
+  const token0 = pool["token-0"];
+  const token1 = pool["token-1"];
+  const symbol0 = tokenSymbol(token0, metadata[token0]);
+  const symbol1 = tokenSymbol(token1, metadata[token1]);
+  // Prices fall back to base units when a token's decimals are unknown
+  const decimals0 = metadata[token0]?.decimals ?? 0;
+  const decimals1 = metadata[token1]?.decimals ?? 0;
+  const balance0 = BigInt(pool["balance-0"]);
+  const balance1 = BigInt(pool["balance-1"]);
+  const format0 = (amount: string | bigint) => formatTokenAmount(BigInt(amount), token0, metadata[token0]);
+  const format1 = (amount: string | bigint) => formatTokenAmount(BigInt(amount), token1, metadata[token1]);
+
+  const stats: [string, ReactNode][] = [
+    ["Fee", `${pool.fee / 100}%`],
+    ["Reserves", `${format0(balance0)} / ${format1(balance1)}`],
+    [
+      "Price",
+      <div key="price" className="flex flex-col">
+        <span>
+          1 {symbol0} = {formatPrice(balance1, balance0, decimals0, decimals1)} {symbol1}
+        </span>
+        <span>
+          1 {symbol1} = {formatPrice(balance0, balance1, decimals1, decimals0)} {symbol0}
+        </span>
+      </div>,
+    ],
+    ["Total liquidity", pool.liquidity],
+    ["24h volume", `${format0(volume.volume0)} + ${format1(volume.volume1)} (${volume.swaps} swaps)`],
+    ["24h fees", `${format0(volume.fees0)} + ${format1(volume.fees1)}`],
+  ];
+
+  // One-line description of an event in whole tokens
+  function describe(event: IndexedEvent): string {
+    const amounts = (amount0: string, amount1: string) => `${format0(amount0)} and ${format1(amount1)}`;
+    switch (event.action) {
+      case "create-pool":
+        return "Pool created";
+      case "add-liquidity":
+        return `${abbreviateAddress(event.sender)} added ${amounts(event.amount0, event.amount1)}`;
+      case "remove-liquidity":
+        return `${abbreviateAddress(event.sender)} removed ${amounts(event.amount0, event.amount1)}`;
+      case "swap": {
+        const [formatIn, formatOut] = event.zeroForOne ? [format0, format1] : [format1, format0];
+        return `${abbreviateAddress(event.sender)} swapped ${formatIn(event.inputAmount)} for ${formatOut(
+          event.outputAmount
+        )}`;
+      }
+      case "flash-swap": {
+        const borrowed = amounts(event.amount0Out, event.amount1Out);
+        return `${abbreviateAddress(event.sender)} flash-borrowed ${borrowed} and returned ${amounts(
+          event.amount0In,
+          event.amount1In
+        )}`;
+      }
+      case "transfer-position":
+        return `${abbreviateAddress(event.sender)} transferred ${event.amount} liquidity to ${abbreviateAddress(
+          event.recipient
+        )}`;
+    }
+  }
+
+  return (
+    <div className="flex flex-col gap-8">
+      <div className="flex flex-col gap-2">
+        <h1 className="text-3xl font-bold flex items-center gap-2">
+          <Link href={explorerUrl("address", token0)} target="_blank">
+            <TokenLabel token={token0} metadata={metadata[token0]} />
+          </Link>
+          <span>/</span>
+          <Link href={explorerUrl("address", token1)} target="_blank">
+            <TokenLabel token={token1} metadata={metadata[token1]} />
+          </Link>
+        </h1>
+        <span className="text-sm text-gray-400 break-all">{pool.id}</span>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+        {stats.map(([label, value]) => (
+          <div key={label} className="flex flex-col gap-1 bg-gray-800 p-4 rounded">
+            <span className="font-bold">{label}</span>
+            {value}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-col">
+        <h2 className="text-xl font-bold mb-2">Recent activity</h2>
+        {events.length === 0 ? (
+          <p className="text-gray-400">No events indexed for this pool yet.</p>
+        ) : (
+          events.map((event) => (
+            <div
+              key={`${event.txId}-${event.eventIndex}`}
+              className="grid grid-cols-1 md:grid-cols-[10rem_1fr_12rem] w-full bg-gray-800 border-b border-gray-700 p-2 gap-2"
+            >
+              <span className="font-semibold">{event.action}</span>
+              <span>{describe(event)}</span>
+              <Link href={explorerUrl("txid", event.txId)} target="_blank" className="text-blue-300 hover:underline">
+                {event.blockTime !== null ? new Date(event.blockTime * 1000).toLocaleString() : "View transaction"}
+              </Link>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
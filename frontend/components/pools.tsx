@@ -1,11 +1,15 @@
+import { TokenLabel } from "@/components/token-label";
 import { Pool } from "@/lib/amm";
+import { explorerUrl } from "@/lib/network";
+import { formatTokenAmount, TokenMetadata } from "@/lib/tokens";
 import Link from "next/link";
 
 export interface PoolsListProps {
   pools: Pool[];
+  metadata: Record<string, TokenMetadata>; // keyed by token contract
 }
 
-export function PoolsList({ pools }: PoolsListProps) {
+export function PoolsList({ pools, metadata }: PoolsListProps) {
   if (pools.length === 0) {
     return (
       <div className="flex flex-col items-center justify-center py-12">
@@ -26,44 +30,44 @@ export function PoolsList({ pools }: PoolsListProps) {
         <span className="hidden md:block">Liquidity</span>
       </div>
       {pools.map((pool) => (
-        <PoolListItem
-          key={`pool-${pool["token-0"]}-${pool["token-1"]}`}
-          pool={pool}
-        />
+        <PoolListItem key={pool.id} pool={pool} metadata={metadata} />
       ))}
     </div>
   );
 }
 
-export function PoolListItem({ pool }: { pool: Pool }) {
-  const token0Name = pool["token-0"].split(".")[1];
-  const token1Name = pool["token-1"].split(".")[1];
-  const feesInPercentage = pool.fee / 10_000;
+export function PoolListItem({ pool, metadata }: { pool: Pool; metadata: Record<string, TokenMetadata> }) {
+  const token0 = pool["token-0"];
+  const token1 = pool["token-1"];
+  const feesInPercentage = pool.fee / 100;
   const poolIdHex = formatPoolId(pool.id);
 
   return (
     <div className="grid grid-cols-2 md:grid-cols-4 place-items-center w-full bg-gray-800 justify-between p-2 md:p-4 gap-2">
       <div className="min-w-0 w-full overflow-x-auto whitespace-nowrap" title={poolIdHex}>
-        <span className="inline-block">{poolIdHex}</span>
+        <Link href={`/pools/${poolIdHex}`} className="inline-block text-blue-300 hover:underline">
+          {poolIdHex}
+        </Link>
       </div>
       <div className="min-w-0 w-full overflow-x-auto whitespace-nowrap flex items-center gap-1">
         <Link
-          href={`https://explorer.hiro.so/txid/${pool["token-0"]}?chain=testnet`}
+          href={explorerUrl("address", token0)}
           target="_blank"
         >
-          {token0Name}
+          <TokenLabel token={token0} metadata={metadata[token0]} />
         </Link>
         <span>/</span>
         <Link
-          href={`https://explorer.hiro.so/txid/${pool["token-1"]}?chain=testnet`}
+          href={explorerUrl("address", token1)}
           target="_blank"
         >
-          {token1Name}
+          <TokenLabel token={token1} metadata={metadata[token1]} />
         </Link>
       </div>
       <span className="hidden md:block">{feesInPercentage}%</span>
       <div className="hidden md:flex items-center gap-2">
-        {pool["balance-0"]} {token0Name} / {pool["balance-1"]} {token1Name}
+        {formatTokenAmount(BigInt(pool["balance-0"]), token0, metadata[token0])} /{" "}
+        {formatTokenAmount(BigInt(pool["balance-1"]), token1, metadata[token1])}
       </div>
     </div>
   );
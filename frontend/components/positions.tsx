@@ -0,0 +1,213 @@
+"use client";
+
+import { AddLiquidity } from "@/components/add-liquidity";
+import { RemoveLiquidity } from "@/components/remove-liquidity";
+import { SettingsPanel } from "@/components/settings";
+import { TokenLabel } from "@/components/token-label";
+import { useStacks } from "@/hooks/use-stacks";
+import { useTokenMetadata } from "@/hooks/use-token-metadata";
+import { useTransactionSettled } from "@/hooks/use-transactions";
+import { getPoolById, getUserLiquidity, Pool, poolReserves } from "@/lib/amm";
+import { quoteRemoveLiquidity } from "@/lib/amm-math";
+import type { CostBasis } from "@/lib/indexer";
+import { formatTokenAmount, poolTokens, TokenMetadata } from "@/lib/tokens";
+import { useEffect, useState } from "react";
+
+export interface PositionsListProps {
+  pools: Pool[];
+}
+
+type Position = {
+  pool: Pool;
+  liquidity: bigint;
+  basis: CostBasis | null; // null when the indexer has no deposit history for the position
+};
+
+type QuickAction = { poolId: string; kind: "add" | "remove" };
+
+export function PositionsList({ pools }: PositionsListProps) {
+  const { userData, getUserAddress } = useStacks();
+  const [positions, setPositions] = useState<Position[] | null>(null);
+  const [action, setAction] = useState<QuickAction | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const metadata = useTokenMetadata(poolTokens(pools));
+
+  async function fetchPositions() {
+    const owner = getUserAddress();
+    if (!owner) return;
+
+    try {
+      const [latestPools, basisRes] = await Promise.all([
+        // Reserves move with every trade, so read them fresh rather than trusting the page's snapshot
+        Promise.all(pools.map(async (pool) => (await getPoolById(pool.id)) ?? pool)),
+        fetch(`/api/positions?owner=${encodeURIComponent(owner)}`),
+      ]);
+      const basis: Record<string, CostBasis> = basisRes.ok ? await basisRes.json() : {};
+      const held = await Promise.all(
+        latestPools.map(async (pool) => ({
+          pool,
+          liquidity: await getUserLiquidity(pool, owner),
+          basis: basis[pool.id] ?? null,
+        }))
+      );
+      setPositions(held.filter((position) => position.liquidity > 0n));
+      setError(null);
+    } catch (err) {
+      console.error("Error fetching positions:", err);
+      setError(err instanceof Error ? err.message : "Failed to fetch positions");
+    }
+  }
+
+  useEffect(() => {
+    setPositions(null);
+    fetchPositions();
+  }, [userData]);
+
+  useTransactionSettled((tx) => {
+    if (tx.status === "success") fetchPositions();
+  });
+
+  if (!userData) {
+    return <p className="text-gray-400">Connect your wallet to see your liquidity positions.</p>;
+  }
+  if (error) {
+    return (
+      <div className="bg-red-900 border border-red-700 text-red-100 px-4 py-3 rounded">
+        <p className="font-bold">Error loading positions:</p>
+        <p>{error}</p>
+      </div>
+    );
+  }
+  if (positions === null) {
+    return <p className="text-gray-400">Loading positions...</p>;
+  }
+  if (positions.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-12">
+        <div className="text-gray-400 text-center">
+          <p className="text-lg font-semibold mb-2">No positions found</p>
+          <p>Add liquidity to a pool and your position will appear here.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const actionPool = action ? positions.find(({ pool }) => pool.id === action.poolId)?.pool : undefined;
+
+  return (
+    <div className="flex flex-col gap-8">
+      <div className="flex flex-col">
+        <div className="grid grid-cols-2 md:grid-cols-6 place-items-center w-full bg-gray-900 p-2 md:p-4 font-semibold gap-2">
+          <span>Pool</span>
+          <span className="hidden md:block">LP Amount</span>
+          <span className="hidden md:block">Pool Share</span>
+          <span>Underlying</span>
+          <span className="hidden md:block">Change Since Deposit</span>
+          <span className="hidden md:block">Actions</span>
+        </div>
+        {positions.map((position) => (
+          <PositionItem
+            key={position.pool.id}
+            position={position}
+            metadata={metadata}
+            onAction={(kind) =>
+              setAction((prev) =>
+                prev?.poolId === position.pool.id && prev.kind === kind ? null : { poolId: position.pool.id, kind }
+              )
+            }
+          />
+        ))}
+      </div>
+
+      {action && actionPool ? (
+        <div className="flex flex-col items-center gap-4">
+          <SettingsPanel />
+          {action.kind === "add" ? (
+            <AddLiquidity key={actionPool.id} pools={[actionPool]} />
+          ) : (
+            <RemoveLiquidity key={actionPool.id} pools={[actionPool]} />
+          )}
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+function PositionItem({
+  position,
+  metadata,
+  onAction,
+}: {
+  position: Position;
+  metadata: Record<string, TokenMetadata>;
+  onAction: (kind: QuickAction["kind"]) => void;
+}) {
+  const { pool, liquidity, basis } = position;
+  const reserves = poolReserves(pool);
+  const token0 = pool["token-0"];
+  const token1 = pool["token-1"];
+  const format0 = (amount: bigint) => formatTokenAmount(amount, token0, metadata[token0]);
+  const format1 = (amount: bigint) => formatTokenAmount(amount, token1, metadata[token1]);
+
+  // What burning the whole position would pay out right now
+  let underlying = { amount0: 0n, amount1: 0n };
+  try {
+    underlying = quoteRemoveLiquidity(reserves, liquidity);
+  } catch {
+    // A position too small to withdraw anything is worth nothing
+  }
+  const sharePct = reserves.liquidity > 0n ? (Number(liquidity) / Number(reserves.liquidity)) * 100 : 0;
+
+  // Both sides valued in token-1 at the current pool price, so fees earned and impermanent loss net out
+  const valueIn1 = (amount0: bigint, amount1: bigint) =>
+    amount1 + (reserves.balance0 > 0n ? (amount0 * reserves.balance1) / reserves.balance0 : 0n);
+  const currentValue = valueIn1(underlying.amount0, underlying.amount1);
+  const depositValue = basis ? valueIn1(BigInt(basis.amount0), BigInt(basis.amount1)) : null;
+  const change = depositValue !== null ? currentValue - depositValue : null;
+  const changePct =
+    change !== null && depositValue && depositValue > 0n ? (Number(change) / Number(depositValue)) * 100 : null;
+
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-6 place-items-center w-full bg-gray-800 p-2 md:p-4 gap-2">
+      <div className="flex flex-col items-center">
+        <span>
+          <TokenLabel token={token0} metadata={metadata[token0]} /> /{" "}
+          <TokenLabel token={token1} metadata={metadata[token1]} />
+        </span>
+        <span className="text-sm text-gray-400">{pool.fee / 100}% fee</span>
+      </div>
+      <span className="hidden md:block">{liquidity.toString()}</span>
+      <span className="hidden md:block">{sharePct.toFixed(4)}%</span>
+      <div className="flex flex-col items-center">
+        <span>{format0(underlying.amount0)}</span>
+        <span>{format1(underlying.amount1)}</span>
+      </div>
+      <span
+        className={`hidden md:block ${
+          change === null ? "text-gray-400" : change < 0n ? "text-red-300" : "text-green-300"
+        }`}
+        title={depositValue !== null ? `Deposit worth ${format1(depositValue)} today` : undefined}
+      >
+        {change === null
+          ? "No deposit history"
+          : `${change > 0n ? "+" : ""}${format1(change)}${
+              changePct !== null ? ` (${changePct.toFixed(2)}%)` : ""
+            }`}
+      </span>
+      <div className="col-span-2 md:col-span-1 flex items-center gap-2">
+        <button
+          className="bg-blue-500 hover:bg-blue-700 text-white font-medium py-1 px-2 rounded"
+          onClick={() => onAction("add")}
+        >
+          Add
+        </button>
+        <button
+          className="bg-gray-200 hover:bg-gray-300 text-black font-medium py-1 px-2 rounded"
+          onClick={() => onAction("remove")}
+        >
+          Remove
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+"use client";
+
+import { useStacks } from "@/hooks/use-stacks";
+import { useTokenMetadata } from "@/hooks/use-token-metadata";
+import { FeeTier, PauseState, Pool } from "@/lib/amm";
+import { FEES_DENOM } from "@/lib/amm-math";
+import { formatTokenAmount, poolLabel, poolTokens } from "@/lib/tokens";
+import { useState } from "react";
+
+export type PoolProtocolFees = {
+  pool: Pool;
+  amount0: string;
+  amount1: string;
+  pauseState: PauseState;
+};
+
+export interface ProtocolFeesAdminProps {
+  owner: string;
+  guardian: string;
+  paused: boolean; // swaps and deposits paused on every pool
+  share: number; // out of FEES_DENOM
+  feeTiers: FeeTier[];
+  pools: PoolProtocolFees[];
+}
+
+export function ProtocolFeesAdmin({ owner, guardian, paused, share, feeTiers, pools }: ProtocolFeesAdminProps) {
+  const {
+    userData,
+    getUserAddress,
+    handleSetProtocolFeeShare,
+    handleSetFeeTier,
+    handleCollectProtocolFees,
+    handleSetPaused,
+    handleSetPoolPaused,
+  } = useStacks();
+  const metadata = useTokenMetadata(poolTokens(pools.map(({ pool }) => pool)));
+  const [newTier, setNewTier] = useState(0);
+  const [newShare, setNewShare] = useState(share);
+  const [recipient, setRecipient] = useState("");
+  const isOwner = !!userData && getUserAddress() === owner;
+  const isGuardian = !!userData && getUserAddress() === guardian;
+  const newTierValid =
+    Number.isInteger(newTier) &&
+    newTier >= 0 &&
+    newTier < Number(FEES_DENOM) &&
+    !feeTiers.some((tier) => tier.fee === newTier);
+  const shareValid = Number.isInteger(newShare) && newShare >= 0 && newShare <= Number(FEES_DENOM);
+
+  return (
+    <div className="flex flex-col gap-8">
+      <div className="flex flex-col gap-1">
+        <span>
+          <span className="font-bold">Contract owner:</span> {owner}
+        </span>
+        <span>
+          <span className="font-bold">Protocol fee:</span> {share / 100}% of every swap fee
+        </span>
+        <span>
+          <span className="font-bold">Guardian:</span> {guardian}
+        </span>
+        {!isOwner ? (
+          <span className="text-sm text-yellow-300">
+            Connect the owner wallet to change the protocol fee or collect fees.
+          </span>
+        ) : null}
+      </div>
+
+      <div className="flex flex-col max-w-md w-full gap-4 p-6 border border-gray-500 rounded-md">
+        <h2 className="text-xl font-bold">Emergency Pause</h2>
+        <span className="text-sm text-gray-400">
+          Pausing stops swaps, deposits and flash swaps. Liquidity providers can always withdraw.
+        </span>
+        <div className="flex items-center justify-between gap-2">
+          <span>All pools ({paused ? "paused" : "active"})</span>
+          <button
+            className="bg-gray-200 hover:bg-gray-300 text-black font-medium py-1 px-2 rounded disabled:bg-gray-300 disabled:cursor-not-allowed"
+            disabled={!isGuardian}
+            onClick={() => handleSetPaused(!paused)}
+          >
+            {paused ? "Resume" : "Pause"}
+          </button>
+        </div>
+        {pools.map(({ pool, pauseState }) => (
+          <div key={pool.id} className="flex items-center justify-between gap-2">
+            <span>
+              {poolLabel(pool, metadata)} ({pauseState.pool ? "paused" : "active"})
+            </span>
+            <button
+              className="bg-gray-200 hover:bg-gray-300 text-black font-medium py-1 px-2 rounded disabled:bg-gray-300 disabled:cursor-not-allowed"
+              disabled={!isGuardian}
+              onClick={() => handleSetPoolPaused(pool, !pauseState.pool)}
+            >
+              {pauseState.pool ? "Resume" : "Pause"}
+            </button>
+          </div>
+        ))}
+        {!isGuardian ? (
+          <span className="text-sm text-yellow-300">Connect the guardian wallet to pause or resume.</span>
+        ) : null}
+      </div>
+
+      <div className="flex flex-col max-w-md w-full gap-4 p-6 border border-gray-500 rounded-md">
+        <h2 className="text-xl font-bold">Protocol Fee Share</h2>
+        <div className="flex flex-col gap-1">
+          <span className="font-bold">Share of swap fees (basis points)</span>
+          <input
+            type="number"
+            step="1"
+            min={0}
+            max={Number(FEES_DENOM)}
+            className="border-2 border-gray-500 rounded-lg px-4 py-2 bg-gray-100 text-black"
+            value={newShare}
+            onChange={(e) => setNewShare(Math.floor(Number(e.target.value || 0)))}
+          />
+          <span className="text-sm text-gray-400">
+            {newShare / 100}% of each swap fee goes to the protocol, 0 turns it off
+          </span>
+        </div>
+        <button
+          className="bg-blue-500 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded disabled:bg-gray-700 disabled:cursor-not-allowed"
+          disabled={!isOwner || !shareValid || newShare === share}
+          onClick={() => handleSetProtocolFeeShare(newShare)}
+        >
+          Set Protocol Fee
+        </button>
+      </div>
+
+      <div className="flex flex-col max-w-md w-full gap-4 p-6 border border-gray-500 rounded-md">
+        <h2 className="text-xl font-bold">Fee Tiers</h2>
+        <span className="text-sm text-gray-400">
+          Disabled tiers stop new pools; existing pools keep trading.
+        </span>
+        {feeTiers.map((tier) => (
+          <div key={tier.fee} className="flex items-center justify-between gap-2">
+            <span>
+              {tier.fee / 100}% ({tier.enabled ? "enabled" : "disabled"})
+            </span>
+            <button
+              className="bg-gray-200 hover:bg-gray-300 text-black font-medium py-1 px-2 rounded disabled:bg-gray-300 disabled:cursor-not-allowed"
+              disabled={!isOwner}
+              onClick={() => handleSetFeeTier(tier.fee, !tier.enabled)}
+            >
+              {tier.enabled ? "Disable" : "Enable"}
+            </button>
+          </div>
+        ))}
+        <div className="flex flex-col gap-1">
+          <span className="font-bold">New tier (basis points)</span>
+          <div className="flex items-center gap-2">
+            <input
+              type="number"
+              step="1"
+              min={0}
+              max={Number(FEES_DENOM) - 1}
+              className="border-2 border-gray-500 rounded-lg px-4 py-2 bg-gray-100 text-black flex-1"
+              value={newTier}
+              onChange={(e) => setNewTier(Math.floor(Number(e.target.value || 0)))}
+            />
+            <button
+              className="bg-blue-500 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded disabled:bg-gray-700 disabled:cursor-not-allowed"
+              disabled={!isOwner || !newTierValid}
+              onClick={() => handleSetFeeTier(newTier, true)}
+            >
+              Add Tier
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-4">
+        <h2 className="text-xl font-bold">Accrued Protocol Fees</h2>
+        <div className="flex flex-col gap-1 max-w-md">
+          <span className="font-bold">Send collected fees to</span>
+          <input
+            type="text"
+            placeholder="Recipient address"
+            className="border-2 border-gray-500 rounded-lg px-4 py-2 bg-gray-100 text-black"
+            value={recipient}
+            onChange={(e) => setRecipient(e.target.value.trim())}
+          />
+        </div>
+        {pools.length === 0 ? (
+          <span className="text-gray-400">No pools found</span>
+        ) : (
+          <div className="flex flex-col">
+            <div className="grid grid-cols-3 place-items-center w-full bg-gray-900 p-2 md:p-4 font-semibold gap-2">
+              <span>Token Pair</span>
+              <span>Accrued</span>
+              <span />
+            </div>
+            {pools.map(({ pool, amount0, amount1 }) => {
+              const token0 = pool["token-0"];
+              const token1 = pool["token-1"];
+              const hasFees = amount0 !== "0" || amount1 !== "0";
+              return (
+                <div
+                  key={pool.id}
+                  className="grid grid-cols-3 place-items-center w-full bg-gray-800 p-2 md:p-4 gap-2"
+                >
+                  <span>{poolLabel(pool, metadata)}</span>
+                  <span>
+                    {formatTokenAmount(BigInt(amount0), token0, metadata[token0])} /{" "}
+                    {formatTokenAmount(BigInt(amount1), token1, metadata[token1])}
+                  </span>
+                  <button
+                    className="bg-blue-500 hover:bg-blue-700 text-white font-bold py-1 px-3 rounded disabled:bg-gray-700 disabled:cursor-not-allowed"
+                    disabled={!isOwner || !hasFees || !recipient}
+                    onClick={() => handleCollectProtocolFees(pool, recipient)}
+                  >
+                    Collect
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
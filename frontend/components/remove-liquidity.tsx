@@ -1,22 +1,33 @@
 "use client";
 
+import { usePauseState } from "@/hooks/use-pause-state";
 import { useStacks } from "@/hooks/use-stacks";
-import { getUserLiquidity, Pool } from "@/lib/amm";
-import { useEffect, useState } from "react";
+import { useTokenMetadata } from "@/hooks/use-token-metadata";
+import { useTransactionSettled } from "@/hooks/use-transactions";
+import { getUserLiquidity, isPaused, Pool, poolReserves } from "@/lib/amm";
+import { quoteRemoveLiquidity } from "@/lib/amm-math";
+import { formatTokenAmount, poolLabel, poolTokens } from "@/lib/tokens";
+import { useEffect, useMemo, useState } from "react";
 
 export interface RemoveLiquidityProps {
   pools: Pool[];
 }
 
 export function RemoveLiquidity({ pools }: RemoveLiquidityProps) {
-  const { userData, handleRemoveLiquidity } = useStacks();
-  const [selectedPool, setSelectedPool] = useState<Pool>(pools[0]);
-  const [liquidity, setLiquidity] = useState(0);
-  const [userTotalLiquidity, setUserTotalLiquidity] = useState(0);
+  const { userData, getUserAddress, handleRemoveLiquidity, handleTransferPosition } = useStacks();
+  const [selectedPoolId, setSelectedPoolId] = useState<string>(pools[0].id);
+  // Looked up by id so refreshed pool data replaces the selection's stale reserves
+  const selectedPool = pools.find((pool) => pool.id === selectedPoolId) ?? pools[0];
+  // LP units are u128s, so they're held as bigints to stay exact above 2^53
+  const [liquidity, setLiquidity] = useState(0n);
+  const [userTotalLiquidity, setUserTotalLiquidity] = useState(0n);
   const [disabledReason, setDisabledReason] = useState<string | null>(null);
+  const [recipient, setRecipient] = useState("");
+  const metadata = useTokenMetadata(poolTokens(pools));
+  const pauseState = usePauseState([selectedPool.id])[selectedPool.id];
 
   async function fetchUserLiquidity() {
-    const stxAddress = userData?.profile.stxAddress.testnet;
+    const stxAddress = getUserAddress();
     if (!stxAddress) return;
 
     getUserLiquidity(selectedPool, stxAddress).then((liquidity) => {
@@ -26,32 +37,49 @@ export function RemoveLiquidity({ pools }: RemoveLiquidityProps) {
 
   useEffect(() => {
     fetchUserLiquidity();
-  }, [selectedPool, userData]);
+  }, [selectedPoolId, userData]);
+
+  useTransactionSettled((tx) => {
+    if (tx.status === "success" && tx.poolIds.includes(selectedPool.id)) fetchUserLiquidity();
+  });
+
+  // Exact amounts the contract would pay out for the entered liquidity
+  const withdrawAmounts = useMemo(() => {
+    try {
+      return quoteRemoveLiquidity(poolReserves(selectedPool), liquidity);
+    } catch {
+      return { amount0: 0n, amount1: 0n };
+    }
+  }, [selectedPool, liquidity]);
+
+  const canSubmit = !!userData && liquidity > 0n && liquidity <= userTotalLiquidity;
 
   return (
     <div className="flex flex-col max-w-md w-full gap-4 p-6 border border-gray-500 rounded-md">
       <h1 className="text-xl font-bold">Remove Liquidity</h1>
       <div className="flex flex-col gap-1">
-        <span className="font-bold">Pool ID</span>
+        <span className="font-bold">Pool</span>
         <select
           className="border-2 border-gray-500 rounded-lg px-4 py-2 bg-gray-100 text-black"
           value={selectedPool.id}
-          onChange={(e) => {
-            const poolId = e.target.value;
-            setSelectedPool(pools.find((pool) => pool.id === poolId)!);
-          }}
+          onChange={(e) => setSelectedPoolId(e.target.value)}
         >
           {pools.map((pool) => (
             <option key={pool.id} value={pool.id}>
-              {pool.id}
+              {poolLabel(pool, metadata)}
             </option>
           ))}
         </select>
+        {pauseState && isPaused(pauseState) ? (
+          <span className="text-sm text-yellow-300">
+            Swaps and deposits on this pool are paused. Withdrawals stay open.
+          </span>
+        ) : null}
       </div>
       <div className="flex flex-col gap-1">
         <div className="flex items-center justify-between">
           <span className="font-bold">Liquidity</span>
-          <span>Max: {userTotalLiquidity}</span>
+          <span>Max: {userTotalLiquidity.toString()}</span>
         </div>
         <div className="flex items-center gap-2">
           <input
@@ -59,19 +87,21 @@ export function RemoveLiquidity({ pools }: RemoveLiquidityProps) {
             step="1"
             min={0}
             className="border-2 border-gray-500 rounded-lg px-4 py-2 bg-gray-100 text-black flex-1"
-            value={liquidity}
+            value={liquidity.toString()}
             onChange={(e) => {
-              const val = Math.max(0, Math.floor(Number(e.target.value || 0)));
+              const text = e.target.value.trim();
+              if (!/^\d*$/.test(text)) return;
+              const val = BigInt(text || 0);
               setLiquidity(val);
               if (!userData) setDisabledReason("Connect wallet to remove liquidity");
-              else if (val === 0) setDisabledReason("Enter a positive liquidity amount");
+              else if (val === 0n) setDisabledReason("Enter a positive liquidity amount");
               else if (val > userTotalLiquidity) setDisabledReason("Amount exceeds your position");
               else setDisabledReason(null);
             }}
           />
           <button
             className="bg-gray-200 hover:bg-gray-300 text-black font-medium py-1 px-2 rounded disabled:bg-gray-300 disabled:cursor-not-allowed"
-            disabled={userTotalLiquidity === 0}
+            disabled={userTotalLiquidity === 0n}
             onClick={() => {
               setLiquidity(userTotalLiquidity);
               setDisabledReason(null);
@@ -84,18 +114,18 @@ export function RemoveLiquidity({ pools }: RemoveLiquidityProps) {
 
       <div className="flex flex-col gap-1">
         <span>
-          Withdraw {selectedPool["token-0"].split(".")[1]}:{" "}
-          {(liquidity / selectedPool.liquidity) * selectedPool["balance-0"]}
+          Withdraw{" "}
+          {formatTokenAmount(withdrawAmounts.amount0, selectedPool["token-0"], metadata[selectedPool["token-0"]])}
         </span>
         <span>
-          Withdraw {selectedPool["token-1"].split(".")[1]}:{" "}
-          {(liquidity / selectedPool.liquidity) * selectedPool["balance-1"]}
+          Withdraw{" "}
+          {formatTokenAmount(withdrawAmounts.amount1, selectedPool["token-1"], metadata[selectedPool["token-1"]])}
         </span>
       </div>
 
       <button
         className="bg-blue-500 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded disabled:bg-gray-700 disabled:cursor-not-allowed"
-        disabled={!userData || liquidity <= 0 || liquidity > userTotalLiquidity}
+        disabled={!canSubmit}
         onClick={() => {
           try {
             handleRemoveLiquidity(selectedPool, liquidity);
@@ -106,6 +136,30 @@ export function RemoveLiquidity({ pools }: RemoveLiquidityProps) {
       >
         Remove Liquidity
       </button>
+
+      <div className="flex flex-col gap-1">
+        <span className="font-bold">Or transfer this liquidity to</span>
+        <input
+          type="text"
+          placeholder="Recipient address"
+          className="border-2 border-gray-500 rounded-lg px-4 py-2 bg-gray-100 text-black"
+          value={recipient}
+          onChange={(e) => setRecipient(e.target.value.trim())}
+        />
+      </div>
+      <button
+        className="bg-blue-500 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded disabled:bg-gray-700 disabled:cursor-not-allowed"
+        disabled={!canSubmit || !recipient || recipient === getUserAddress()}
+        onClick={() => {
+          try {
+            handleTransferPosition(selectedPool, liquidity, recipient);
+          } catch (e) {
+            console.warn("Transfer liquidity failed", e);
+          }
+        }}
+      >
+        Transfer Liquidity
+      </button>
       {disabledReason ? (
         <span className="text-sm text-red-300">{disabledReason}</span>
       ) : null}
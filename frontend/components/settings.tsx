@@ -0,0 +1,92 @@
+"use client";
+
+import { useSettings } from "@/hooks/use-settings";
+
+const SLIPPAGE_PRESETS = [10, 50, 100];
+
+export interface SettingsPanelProps {
+  // Price impact thresholds only apply to swaps
+  showPriceImpact?: boolean;
+}
+
+export function SettingsPanel({ showPriceImpact = false }: SettingsPanelProps) {
+  const { settings, updateSettings } = useSettings();
+
+  return (
+    <div className="flex flex-col gap-1">
+      <span className="font-bold">Slippage tolerance</span>
+      <div className="flex items-center gap-2">
+        {SLIPPAGE_PRESETS.map((bps) => (
+          <button
+            key={bps}
+            className={`font-medium py-1 px-2 rounded text-black ${
+              settings.slippageBps === bps ? "bg-blue-300" : "bg-gray-200 hover:bg-gray-300"
+            }`}
+            onClick={() => updateSettings({ slippageBps: bps })}
+          >
+            {bps / 100}%
+          </button>
+        ))}
+        <input
+          type="number"
+          step="0.01"
+          min={0}
+          max={50}
+          className="border-2 border-gray-500 rounded-lg px-2 py-1 bg-gray-100 text-black w-24"
+          value={settings.slippageBps / 100}
+          onChange={(e) => {
+            const pct = Number(e.target.value || 0);
+            if (Number.isFinite(pct)) updateSettings({ slippageBps: Math.round(pct * 100) });
+          }}
+        />
+        <span>%</span>
+      </div>
+      <span className="font-bold">Transaction deadline</span>
+      <div className="flex items-center gap-2">
+        <input
+          type="number"
+          step="1"
+          min={0}
+          className="border-2 border-gray-500 rounded-lg px-2 py-1 bg-gray-100 text-black w-24"
+          value={settings.deadlineMinutes}
+          onChange={(e) => updateSettings({ deadlineMinutes: Math.floor(Number(e.target.value || 0)) })}
+        />
+        <span>minutes{settings.deadlineMinutes === 0 ? " (no deadline)" : ""}</span>
+      </div>
+      {showPriceImpact ? (
+        <>
+          <span className="font-bold">Price impact</span>
+          <div className="flex items-center gap-2">
+            <span>Warn at</span>
+            <input
+              type="number"
+              step="0.1"
+              min={0}
+              max={100}
+              className="border-2 border-gray-500 rounded-lg px-2 py-1 bg-gray-100 text-black w-20"
+              value={settings.priceImpactWarnBps / 100}
+              onChange={(e) => {
+                const pct = Number(e.target.value || 0);
+                if (Number.isFinite(pct)) updateSettings({ priceImpactWarnBps: Math.round(pct * 100) });
+              }}
+            />
+            <span>%, confirm at</span>
+            <input
+              type="number"
+              step="0.1"
+              min={0}
+              max={100}
+              className="border-2 border-gray-500 rounded-lg px-2 py-1 bg-gray-100 text-black w-20"
+              value={settings.priceImpactBlockBps / 100}
+              onChange={(e) => {
+                const pct = Number(e.target.value || 0);
+                if (Number.isFinite(pct)) updateSettings({ priceImpactBlockBps: Math.round(pct * 100) });
+              }}
+            />
+            <span>%</span>
+          </div>
+        </>
+      ) : null}
+    </div>
+  );
+}
@@ -1,60 +1,95 @@
 "use client";
 
+import { SettingsPanel } from "@/components/settings";
+import { UnlistedTokenNotice } from "@/components/token-select";
+import { usePauseState } from "@/hooks/use-pause-state";
+import { useSettings } from "@/hooks/use-settings";
 import { useStacks } from "@/hooks/use-stacks";
-import { Pool, getTokenDecimals, toBaseUnits } from "@/lib/amm";
+import { useTokenMetadata } from "@/hooks/use-token-metadata";
+import { useTransactionSettled } from "@/hooks/use-transactions";
+import { isPaused, Pool, getTokenDecimals, toBaseUnits } from "@/lib/amm";
+import { applySlippage, applySlippageMax } from "@/lib/amm-math";
+import { formatPrice } from "@/lib/format";
+import {
+  findBestExactOutputRoute,
+  findBestRoute,
+  findPaths,
+  reachableTokens,
+  Route,
+  routePrices,
+} from "@/lib/router";
+import { formatTokenAmount, poolTokens, tokenSymbol } from "@/lib/tokens";
 import { useEffect, useMemo, useState } from "react";
 
+// Exact input: the user types the amount sold. Exact output: the user types the amount bought.
+type SwapMode = "exact-input" | "exact-output";
+
 export interface SwapProps {
   pools: Pool[];
 }
 
 export function Swap({ pools }: SwapProps) {
   const { handleSwap, handleMint, readTokenBalance, userData } = useStacks();
+  const { settings } = useSettings();
   const [fromToken, setFromToken] = useState<string>(pools[0]["token-0"]);
   const [toToken, setToToken] = useState<string>(pools[0]["token-1"]);
+  const [mode, setMode] = useState<SwapMode>("exact-input");
   const [fromAmount, setFromAmount] = useState<number>(0);
+  const [toAmount, setToAmount] = useState<number>(0);
+  // Requested output in base units, for exact-output swaps
+  const [exactAmountOut, setExactAmountOut] = useState<bigint>(0n);
   const [estimatedToAmount, setEstimatedToAmount] = useState<bigint>(BigInt(0));
   const [fromBalance, setFromBalance] = useState<number | null>(null);
   const [toBalance, setToBalance] = useState<number | null>(null);
   const [disabledReason, setDisabledReason] = useState<string | null>(null);
-  const [selectedPoolFee, setSelectedPoolFee] = useState<number | null>(null);
-
-  const uniqueTokens = pools.reduce((acc, pool) => {
-    const token0 = pool["token-0"];
-    const token1 = pool["token-1"];
-
-    if (!acc.includes(token0)) {
-      acc.push(token0);
-    }
-
-    if (!acc.includes(token1)) {
-      acc.push(token1);
-    }
-
-    return acc;
-  }, [] as string[]);
+  const [route, setRoute] = useState<Route | null>(null);
+  const [impactConfirmed, setImpactConfirmed] = useState(false);
+  const uniqueTokens = poolTokens(pools);
+  const metadata = useTokenMetadata(uniqueTokens);
+  const pauseStates = usePauseState(pools.map((pool) => pool.id));
+  // Routes only use pools the guardian hasn't paused; the token selects still list every pair
+  const tradablePools = useMemo(
+    () => pools.filter((pool) => !(pauseStates[pool.id] && isPaused(pauseStates[pool.id]))),
+    [pools, pauseStates]
+  );
+  const pausedReason =
+    findPaths(pools, fromToken, toToken).length > 0 && findPaths(tradablePools, fromToken, toToken).length === 0
+      ? Object.values(pauseStates).some((state) => state.global)
+        ? "Swaps are paused on every pool while the guardian investigates an issue. Withdrawals still work."
+        : "Swaps are paused on the pools this pair trades through. Withdrawals still work."
+      : null;
 
-  const toTokensList = useMemo(() => {
-    const poolsWithFromToken = pools.filter(
-      (pool) => pool["token-0"] === fromToken || pool["token-1"] === fromToken
-    );
-    const tokensFromPools = poolsWithFromToken.reduce((acc, pool) => {
-      const token0 = pool["token-0"];
-      const token1 = pool["token-1"];
+  // Least output (exact input) or most input (exact output) the swap will accept before reverting on-chain
+  const minOutput = route ? applySlippage(route.amountOut, settings.slippageBps) : 0n;
+  const maxInput = route ? applySlippageMax(route.amountIn, settings.slippageBps) : 0n;
+  const typedAmount = mode === "exact-input" ? fromAmount : toAmount;
 
-      if (!acc.includes(token0) && token0 !== fromToken) {
-        acc.push(token0);
-      }
+  const prices = useMemo(() => (route ? routePrices(route) : null), [route]);
+  const impactBps = prices ? prices.priceImpactPct * 100 : 0;
+  const impactWarning = !!prices && impactBps >= settings.priceImpactWarnBps;
+  const impactBlocked = !!prices && impactBps >= settings.priceImpactBlockBps && !impactConfirmed;
 
-      if (!acc.includes(token1) && token1 !== fromToken) {
-        acc.push(token1);
-      }
+  // Whole-token amount of token, or raw base units until its metadata loads
+  function formatAmount(amount: bigint, token: string) {
+    return formatTokenAmount(amount, token, metadata[token]);
+  }
 
-      return acc;
-    }, [] as string[]);
+  // Whole tokenOut per whole tokenIn
+  function formatRoutePrice(price: { numerator: bigint; denominator: bigint }) {
+    if (!route) return "-";
+    const metadataIn = metadata[route.tokenIn];
+    const metadataOut = metadata[route.tokenOut];
+    if (!metadataIn || !metadataOut) return "-";
+    return `1 ${metadataIn.symbol} = ${formatPrice(
+      price.numerator,
+      price.denominator,
+      metadataIn.decimals,
+      metadataOut.decimals
+    )} ${metadataOut.symbol}`;
+  }
 
-    return tokensFromPools;
-  }, [fromToken, pools]);
+  // Any token reachable from fromToken through up to MAX_HOPS pools
+  const toTokensList = useMemo(() => reachableTokens(pools, fromToken), [fromToken, pools]);
 
   // Ensure toToken always matches a valid pair with fromToken
   useEffect(() => {
@@ -68,83 +103,56 @@ export function Swap({ pools }: SwapProps) {
   }, [fromToken, toTokensList]);
 
   async function estimateSwapOutput() {
-    const pool = selectBestPool(fromToken, toToken, pools);
-    if (!pool) {
+    if (findPaths(tradablePools, fromToken, toToken).length === 0) {
       setEstimatedToAmount(0n);
-      setDisabledReason("No pool exists for the selected pair");
-      setSelectedPoolFee(null);
+      setRoute(null);
+      setDisabledReason(
+        findPaths(pools, fromToken, toToken).length === 0 ? "No route exists for the selected pair" : "Swaps are paused"
+      );
       return;
     }
-    setSelectedPoolFee(pool.fee);
-    if (!Number.isFinite(fromAmount) || fromAmount <= 0) {
+    if (!Number.isFinite(typedAmount) || typedAmount <= 0) {
       setEstimatedToAmount(0n);
+      setRoute(null);
       setDisabledReason("Enter a positive amount");
       return;
     }
 
-    const zeroForOne = fromToken === pool["token-0"];
-    const x = BigInt(pool["balance-0"]);
-    const y = BigInt(pool["balance-1"]);
-    const k = x * y;
-
-    // Guard against empty pools
-    if (x <= 0n || y <= 0n) {
-      setEstimatedToAmount(0n);
-      setDisabledReason("Pool has zero reserves");
-      return;
-    }
-
-    // Convert input amount to base units using decimals of the input token
-    const fromDecimals = await getTokenDecimals(fromToken);
-    const deltaBaseUnits = toBaseUnits(fromAmount, fromDecimals);
+    // Convert the typed amount to base units using decimals of the token it is denominated in
+    const typedToken = mode === "exact-input" ? fromToken : toToken;
+    const typedDecimals = await getTokenDecimals(typedToken);
+    const deltaBaseUnits = toBaseUnits(typedAmount, typedDecimals);
     if (deltaBaseUnits <= 0n) {
       setEstimatedToAmount(0n);
+      setRoute(null);
       setDisabledReason("Amount too small after decimals conversion");
       return;
     }
 
-    let output: bigint;
-    if (zeroForOne) {
-      // Contract math: output = y - k / (x + dx)
-      const xPlus = x + deltaBaseUnits;
-      if (xPlus <= 0n) {
-        setEstimatedToAmount(0n);
-        setDisabledReason("Invalid pool state for swap");
-        return;
-      }
-      const term = k / xPlus;
-      output = y - term;
-    } else {
-      // Contract math: output = x - k / (y + dy)
-      const yPlus = y + deltaBaseUnits;
-      if (yPlus <= 0n) {
-        setEstimatedToAmount(0n);
-        setDisabledReason("Invalid pool state for swap");
-        return;
-      }
-      const term = k / yPlus;
-      output = x - term;
-    }
-
-    if (output <= 0n) {
-      setEstimatedToAmount(0n);
-      setDisabledReason("Output is zero; try a larger amount");
+    if (mode === "exact-output") {
+      // Exact-output swaps run against a single pool
+      const best = findBestExactOutputRoute(tradablePools, fromToken, toToken, deltaBaseUnits);
+      setExactAmountOut(deltaBaseUnits);
+      setRoute(best);
+      setEstimatedToAmount(best?.amountOut ?? 0n);
+      setDisabledReason(best ? null : "No single pool can pay out that amount");
       return;
     }
 
-    // Apply fees: fees = (output * fee) / 10000
-    const feeNumerator = BigInt(pool.fee);
-    const feeDenom = 10000n;
-    const fees = (output * feeNumerator) / feeDenom;
-    const outputAfterFees = output - fees;
-
-    setEstimatedToAmount(outputAfterFees > 0n ? outputAfterFees : 0n);
-    setDisabledReason(outputAfterFees > 0n ? null : "Output becomes zero after fees");
+    const best = findBestRoute(tradablePools, fromToken, toToken, deltaBaseUnits);
+    setRoute(best);
+    setEstimatedToAmount(best?.amountOut ?? 0n);
+    setDisabledReason(best ? null : "Insufficient liquidity for swap");
   }
 
   useEffect(() => {
     void estimateSwapOutput();
-  }, [fromToken, toToken, fromAmount]);
+  }, [fromToken, toToken, fromAmount, toAmount, mode, tradablePools]);
+
+  // A new quote needs a fresh confirmation of its price impact
+  useEffect(() => {
+    setImpactConfirmed(false);
+  }, [route]);
 
   useEffect(() => {
     async function loadTokenInfo() {
@@ -167,10 +175,31 @@ export function Swap({ pools }: SwapProps) {
     loadTokenInfo();
   }, [fromToken, toToken, userData]);
 
+  // Re-read only the balances a confirmed transaction moved
+  useTransactionSettled((tx) => {
+    if (tx.status !== "success" || !userData) return;
+    if (tx.tokens.includes(fromToken)) void readTokenBalance(fromToken).then(setFromBalance);
+    if (tx.tokens.includes(toToken)) void readTokenBalance(toToken).then(setToBalance);
+  });
+
   return (
     <div className="flex flex-col max-w-xl w-full gap-4 p-6 border rounded-md">
       <h1 className="text-xl font-bold">Swap</h1>
 
+      <div className="flex items-center gap-2">
+        {(["exact-input", "exact-output"] as const).map((m) => (
+          <button
+            key={m}
+            className={`font-medium py-1 px-2 rounded text-black ${
+              mode === m ? "bg-blue-300" : "bg-gray-200 hover:bg-gray-300"
+            }`}
+            onClick={() => setMode(m)}
+          >
+            {m === "exact-input" ? "Exact input" : "Exact output"}
+          </button>
+        ))}
+      </div>
+
       <div className="flex flex-col gap-1">
         <span className="font-bold">From</span>
         <select
@@ -180,28 +209,36 @@ export function Swap({ pools }: SwapProps) {
         >
           {uniqueTokens.map((token) => (
             <option key={token} value={token}>
-              {token}
+              {tokenSymbol(token, metadata[token])}
             </option>
           ))}
         </select>
        
-      <input
-        type="number"
-        step="any"
-        className="border-2 border-gray-500 rounded-lg px-4 py-2 bg-gray-100 text-black"
-        placeholder="Amount"
-        value={fromAmount}
-        onChange={(e) => setFromAmount(Number(e.target.value || 0))}
-      />
+      {mode === "exact-input" ? (
+        <input
+          type="number"
+          step="any"
+          className="border-2 border-gray-500 rounded-lg px-4 py-2 bg-gray-100 text-black"
+          placeholder="Amount"
+          value={fromAmount}
+          onChange={(e) => setFromAmount(Number(e.target.value || 0))}
+        />
+      ) : (
+        <>
+          <span>Estimated Input: {route ? formatAmount(route.amountIn, route.tokenIn) : "0"}</span>
+          {route ? (
+            <span className="text-sm text-gray-400">
+              Maximum sold: {formatAmount(maxInput, route.tokenIn)} ({settings.slippageBps / 100}%
+              slippage)
+            </span>
+          ) : null}
+        </>
+      )}
       <div className="flex items-center gap-2">
         <button
           className="bg-gray-200 hover:bg-gray-300 text-black font-medium py-1 px-2 rounded disabled:bg-gray-300 disabled:cursor-not-allowed"
           disabled={!userData}
-          onClick={async () => {
-            await handleMint(fromToken, 100_000_000);
-            const fb = await readTokenBalance(fromToken);
-            setFromBalance(fb);
-          }}
+          onClick={() => handleMint(fromToken, 100_000_000)}
         >
           Faucet: Mint From
         </button>
@@ -216,37 +253,103 @@ export function Swap({ pools }: SwapProps) {
         >
           {toTokensList.map((token) => (
             <option key={token} value={token}>
-              {token}
+              {tokenSymbol(token, metadata[token])}
             </option>
           ))}
         </select>
-      <span>Estimated Output: {estimatedToAmount.toString()}</span>
+      {mode === "exact-output" ? (
+        <input
+          type="number"
+          step="any"
+          className="border-2 border-gray-500 rounded-lg px-4 py-2 bg-gray-100 text-black"
+          placeholder="Amount"
+          value={toAmount}
+          onChange={(e) => setToAmount(Number(e.target.value || 0))}
+        />
+      ) : (
+        <span>
+          Estimated Output:{" "}
+          {route ? formatAmount(estimatedToAmount, route.tokenOut) : estimatedToAmount.toString()}
+        </span>
+      )}
+      <UnlistedTokenNotice tokens={[fromToken, toToken]} metadata={metadata} />
+      {route ? (
+        <span className="text-sm text-gray-400">
+          Route:{" "}
+          {[route.tokenIn, ...route.hops.map((hop) => hop.tokenOut)]
+            .map((token) => tokenSymbol(token, metadata[token]))
+            .join(" → ")}{" "}
+          ({route.hops.map((hop) => `${hop.pool.fee / 100}%`).join(", ")} fee)
+        </span>
+      ) : null}
+      {route && mode === "exact-input" ? (
+        <span className="text-sm text-gray-400">
+          Minimum received: {formatAmount(minOutput, route.tokenOut)} ({settings.slippageBps / 100}%
+          slippage)
+        </span>
+      ) : null}
+      {route && prices ? (
+        <div className="flex flex-col text-sm text-gray-400">
+          <span>Spot price: {formatRoutePrice(prices.spotPrice)}</span>
+          <span>Execution price: {formatRoutePrice(prices.executionPrice)}</span>
+          <span>
+            Fee paid:{" "}
+            {route.hops.map((hop) => formatAmount(hop.fees, hop.tokenOut)).join(" + ")}
+          </span>
+          <span
+            className={
+              impactBps >= settings.priceImpactBlockBps
+                ? "text-red-400 font-bold"
+                : impactWarning
+                  ? "text-yellow-300"
+                  : undefined
+            }
+          >
+            Price impact: {prices.priceImpactPct.toFixed(2)}%
+          </span>
+        </div>
+      ) : null}
       <div className="flex items-center gap-2">
         <button
           className="bg-gray-200 hover:bg-gray-300 text-black font-medium py-1 px-2 rounded disabled:bg-gray-300 disabled:cursor-not-allowed"
           disabled={!userData}
-          onClick={async () => {
-            await handleMint(toToken, 100_000_000);
-            const tb = await readTokenBalance(toToken);
-            setToBalance(tb);
-          }}
+          onClick={() => handleMint(toToken, 100_000_000)}
         >
           Faucet: Mint To
         </button>
       </div>
       </div>
 
-      
+      <SettingsPanel showPriceImpact />
+
+      {impactWarning ? (
+        <div className="bg-yellow-900 border border-yellow-700 text-yellow-100 px-4 py-3 rounded text-sm">
+          This swap moves the price by {prices?.priceImpactPct.toFixed(2)}%, so you receive that much
+          less than the current price suggests. Consider a smaller amount or a deeper pool.
+        </div>
+      ) : null}
+      {prices && impactBps >= settings.priceImpactBlockBps ? (
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={impactConfirmed}
+            onChange={(e) => setImpactConfirmed(e.target.checked)}
+          />
+          I accept losing {prices.priceImpactPct.toFixed(2)}% to price impact
+        </label>
+      ) : null}
+
+      {pausedReason ? (
+        <div className="bg-red-900 border border-red-700 text-red-100 px-4 py-3 rounded text-sm">{pausedReason}</div>
+      ) : null}
 
       <button
         className="bg-blue-500 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded disabled:bg-gray-700 disabled:cursor-not-allowed"
-        disabled={!userData || fromAmount <= 0}
+        disabled={!userData || typedAmount <= 0 || !route || impactBlocked || !!pausedReason}
         onClick={() => {
-          const pool = selectBestPool(fromToken, toToken, pools);
-          if (!pool) return;
-
-          const zeroForOne = fromToken === pool["token-0"];
-          handleSwap(pool, fromAmount, zeroForOne);
+          if (!route) return;
+          if (mode === "exact-output") handleSwap(route, exactAmountOut);
+          else handleSwap(route);
         }}
       >
         Swap
@@ -254,22 +357,3 @@ export function Swap({ pools }: SwapProps) {
     </div>
   );
 }
-  function selectBestPool(ft: string, tt: string, poolsList: Pool[]): Pool | null {
-    const pairPools = poolsList.filter(
-      (p) =>
-        (p["token-0"] === ft && p["token-1"] === tt) ||
-        (p["token-0"] === tt && p["token-1"] === ft)
-    );
-    if (pairPools.length === 0) return null;
-    const withReserves = pairPools.filter((p) => p["balance-0"] > 0 && p["balance-1"] > 0);
-    const candidates = withReserves.length > 0 ? withReserves : pairPools;
-    // Prefer the highest liquidity/product of reserves
-    const sorted = candidates.sort((a, b) => {
-      const aProd = (a["balance-0"] || 0) * (a["balance-1"] || 0);
-      const bProd = (b["balance-0"] || 0) * (b["balance-1"] || 0);
-      if (bProd !== aProd) return bProd - aProd;
-      // Tiebreaker: lower fee is better for user
-      return a.fee - b.fee;
-    });
-    return sorted[0] ?? pairPools[0];
-  }
\ No newline at end of file
@@ -0,0 +1,20 @@
+import { TokenMetadata, tokenSymbol } from "@/lib/tokens";
+
+export interface TokenLabelProps {
+  token: string;
+  metadata?: TokenMetadata;
+}
+
+// Token icon, when its metadata has one, followed by its symbol; the full name shows on hover
+export function TokenLabel({ token, metadata }: TokenLabelProps) {
+  return (
+    <span className="inline-flex items-center gap-1" title={metadata ? `${metadata.name} (${token})` : token}>
+      {metadata?.image ? (
+        // Icons come from arbitrary token-uri hosts, which next/image would need configured one by one
+        // eslint-disable-next-line @next/next/no-img-element
+        <img src={metadata.image} alt="" className="w-5 h-5 rounded-full" />
+      ) : null}
+      {tokenSymbol(token, metadata)}
+    </span>
+  );
+}
@@ -0,0 +1,167 @@
+"use client";
+
+import { TokenLabel } from "@/components/token-label";
+import { useKnownTokens } from "@/hooks/use-known-tokens";
+import { TokenListEntry } from "@/lib/token-list";
+import { checkToken, listEntryMetadata, TokenMetadata, tokenSymbol } from "@/lib/tokens";
+import { useState } from "react";
+
+export interface TokenSelectProps {
+  label: string;
+  value: string;
+  onChange: (token: string) => void;
+}
+
+const IMPORT_OPTION = "__import__";
+
+// A token from the token list or this browser's imports, or a new one imported by contract principal
+export function TokenSelect({ label, value, onChange }: TokenSelectProps) {
+  const { tokens, isImported, importToken, removeToken } = useKnownTokens();
+  const [importing, setImporting] = useState(false);
+  const [principal, setPrincipal] = useState("");
+  const [preview, setPreview] = useState<TokenListEntry | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  function resetImport() {
+    setImporting(false);
+    setPrincipal("");
+    setPreview(null);
+    setError(null);
+  }
+
+  async function handleCheck() {
+    setChecking(true);
+    setPreview(null);
+    setError(null);
+    try {
+      setPreview(await checkToken(principal));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Token check failed");
+    } finally {
+      setChecking(false);
+    }
+  }
+
+  function handleImport() {
+    if (!preview) return;
+    importToken(preview);
+    onChange(preview.contract);
+    resetImport();
+  }
+
+  return (
+    <div className="flex flex-col gap-1">
+      <span className="font-bold">{label}</span>
+      <select
+        className="border-2 border-gray-500 rounded-lg px-4 py-2 bg-gray-100 text-black"
+        value={importing ? IMPORT_OPTION : value}
+        onChange={(e) => {
+          if (e.target.value === IMPORT_OPTION) {
+            setImporting(true);
+          } else {
+            resetImport();
+            onChange(e.target.value);
+          }
+        }}
+      >
+        <option value="" disabled>
+          Select a token
+        </option>
+        {tokens.map((token) => (
+          <option key={token.contract} value={token.contract}>
+            {token.symbol} - {token.name}
+            {isImported(token.contract) ? " (imported)" : ""}
+          </option>
+        ))}
+        <option value={IMPORT_OPTION}>Import a token...</option>
+      </select>
+
+      {!importing && value && isImported(value) ? (
+        <button
+          className="self-start text-sm text-gray-400 hover:text-gray-200 underline"
+          onClick={() => {
+            removeToken(value);
+            onChange("");
+          }}
+        >
+          Remove imported token
+        </button>
+      ) : null}
+
+      {importing ? (
+        <div className="flex flex-col gap-2 p-3 border border-gray-600 rounded-md">
+          <div className="flex gap-2">
+            <input
+              type="text"
+              className="flex-1 border-2 border-gray-500 rounded-lg px-4 py-2 bg-gray-100 text-black"
+              placeholder="Contract principal, e.g. ST1...ABC.my-token"
+              value={principal}
+              onChange={(e) => {
+                setPrincipal(e.target.value);
+                setPreview(null);
+                setError(null);
+              }}
+            />
+            <button
+              onClick={handleCheck}
+              disabled={checking || !principal.trim()}
+              className="bg-gray-200 hover:bg-gray-300 text-black font-medium py-2 px-4 rounded disabled:bg-gray-700 disabled:cursor-not-allowed"
+            >
+              {checking ? "Checking..." : "Check"}
+            </button>
+          </div>
+
+          {error ? <p className="text-sm text-red-300">{error}</p> : null}
+
+          {preview ? (
+            <div className="flex flex-col gap-1 text-sm">
+              <span className="text-lg">
+                <TokenLabel token={preview.contract} metadata={listEntryMetadata(preview)} />
+              </span>
+              <span>Name: {preview.name}</span>
+              <span>Decimals: {preview.decimals}</span>
+              <span className="text-gray-400 break-all">{preview.contract}</span>
+              <p className="text-yellow-300">
+                Anyone can deploy a token with any name and symbol. Make sure this is the contract you expect.
+              </p>
+              <button
+                onClick={handleImport}
+                className="bg-blue-500 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded"
+              >
+                Import {preview.symbol}
+              </button>
+            </div>
+          ) : null}
+
+          <button className="self-start text-sm text-gray-400 hover:text-gray-200 underline" onClick={resetImport}>
+            Cancel
+          </button>
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+export interface UnlistedTokenNoticeProps {
+  tokens: string[];
+  metadata: Record<string, TokenMetadata>;
+}
+
+// Pools can pair any contract, so flag tokens that are neither on the token list nor imported
+export function UnlistedTokenNotice({ tokens, metadata }: UnlistedTokenNoticeProps) {
+  const { loaded, isKnown } = useKnownTokens();
+  const unlisted = loaded ? Array.from(new Set(tokens)).filter((token) => !isKnown(token)) : [];
+  if (unlisted.length === 0) return null;
+
+  return (
+    <div className="flex flex-col gap-1 text-sm text-yellow-300">
+      {unlisted.map((token) => (
+        <span key={token} className="break-all">
+          {tokenSymbol(token, metadata[token])} is not on the token list ({token}). Check the contract before
+          trading it.
+        </span>
+      ))}
+    </div>
+  );
+}
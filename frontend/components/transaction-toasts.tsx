@@ -0,0 +1,105 @@
+"use client";
+
+import { useTransactions, useTransactionSettled } from "@/hooks/use-transactions";
+import { explorerUrl } from "@/lib/network";
+import {
+  dismissTransaction,
+  fetchTransactionStatus,
+  isFinal,
+  TrackedTx,
+  TxStatus,
+  updateTransactionStatus,
+} from "@/lib/transactions";
+import { useRouter } from "next/navigation";
+import { useEffect } from "react";
+
+const POLL_INTERVAL_MS = 5000;
+const SUCCESS_DISMISS_MS = 10000;
+
+const STATUS_LABELS: Record<TxStatus, string> = {
+  pending: "Pending",
+  success: "Confirmed",
+  abort_by_response: "Failed",
+  abort_by_post_condition: "Blocked by post-conditions",
+  dropped: "Dropped",
+};
+
+const STATUS_STYLES: Record<TxStatus, string> = {
+  pending: "bg-gray-800 border-gray-600",
+  success: "bg-green-900 border-green-700",
+  abort_by_response: "bg-red-900 border-red-700",
+  abort_by_post_condition: "bg-red-900 border-red-700",
+  dropped: "bg-yellow-900 border-yellow-700",
+};
+
+export function TransactionToasts() {
+  const transactions = useTransactions();
+  const router = useRouter();
+  const pendingIds = transactions
+    .filter((tx) => !isFinal(tx.status))
+    .map((tx) => tx.txId)
+    .join(",");
+
+  // Poll pending transactions until the API reports a final status
+  useEffect(() => {
+    if (!pendingIds) return;
+    const ids = pendingIds.split(",");
+    const timer = setInterval(() => {
+      for (const txId of ids) {
+        fetchTransactionStatus(txId)
+          .then((result) => updateTransactionStatus(txId, result))
+          .catch((err) => console.warn("Failed to poll transaction", txId, err));
+      }
+    }, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [pendingIds]);
+
+  // Pools are server-rendered, so re-run the server components for the current page once a
+  // transaction that touched a pool confirms. Client state (form inputs, selections) is kept.
+  useTransactionSettled((tx) => {
+    if (tx.status === "success" && tx.poolIds.length > 0) router.refresh();
+    if (tx.status === "success") {
+      setTimeout(() => dismissTransaction(tx.txId), SUCCESS_DISMISS_MS);
+    }
+  });
+
+  if (transactions.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 flex flex-col gap-2 w-80">
+      {transactions.map((tx) => (
+        <Toast key={tx.txId} tx={tx} />
+      ))}
+    </div>
+  );
+}
+
+function Toast({ tx }: { tx: TrackedTx }) {
+  return (
+    <div className={`flex flex-col gap-1 border rounded-md px-4 py-3 text-white ${STATUS_STYLES[tx.status]}`}>
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-bold">{tx.description}</span>
+        <button
+          className="text-gray-300 hover:text-white"
+          aria-label="Dismiss"
+          onClick={() => dismissTransaction(tx.txId)}
+        >
+          ×
+        </button>
+      </div>
+      <span className="text-sm">
+        {STATUS_LABELS[tx.status]}
+        {tx.status === "pending" ? "…" : ""}
+        {tx.error ? `: ${tx.error}` : ""}
+      </span>
+      <a
+        href={explorerUrl("txid", tx.txId)}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="text-sm text-blue-300 hover:underline"
+      >
+        View in explorer
+      </a>
+    </div>
+  );
+}
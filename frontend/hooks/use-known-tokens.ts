@@ -0,0 +1,43 @@
+import {
+  getTokenList,
+  loadImportedTokens,
+  onImportedTokensChange,
+  removeImportedToken,
+  saveImportedToken,
+  TokenListEntry,
+} from "@/lib/token-list";
+import { useEffect, useState } from "react";
+
+export function useKnownTokens() {
+  // Start empty so server and client render the same markup, then load the list and this browser's imports
+  const [listed, setListed] = useState<TokenListEntry[]>([]);
+  const [imported, setImported] = useState<TokenListEntry[]>([]);
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    getTokenList().then(({ tokens }) => {
+      if (cancelled) return;
+      setListed(tokens);
+      setLoaded(true);
+    });
+    setImported(loadImportedTokens());
+    const unsubscribe = onImportedTokensChange(setImported);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
+
+  const listedContracts = new Set(listed.map((token) => token.contract));
+  const tokens = [...listed, ...imported.filter((token) => !listedContracts.has(token.contract))];
+
+  return {
+    tokens,
+    loaded,
+    isKnown: (contract: string) => tokens.some((token) => token.contract === contract),
+    isImported: (contract: string) => !listedContracts.has(contract) && imported.some((t) => t.contract === contract),
+    importToken: saveImportedToken,
+    removeToken: removeImportedToken,
+  };
+}
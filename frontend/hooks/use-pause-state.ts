@@ -0,0 +1,37 @@
+import { useTransactionSettled } from "@/hooks/use-transactions";
+import { getPauseState, PauseState } from "@/lib/amm";
+import { useCallback, useEffect, useState } from "react";
+
+/**
+ * Pause state of each pool in `poolIds`, keyed by pool id. Pools start out unpaused until their
+ * reads settle, and are read again whenever the guardian's pause transactions confirm.
+ */
+export function usePauseState(poolIds: string[]): Record<string, PauseState> {
+  const [states, setStates] = useState<Record<string, PauseState>>({});
+  // Depend on the pool set rather than the array, which callers usually rebuild every render
+  const key = Array.from(new Set(poolIds)).sort().join(",");
+
+  const load = useCallback(() => {
+    if (!key) return () => {};
+    let cancelled = false;
+    Promise.all(
+      key.split(",").map(async (poolId) => [poolId, await getPauseState(poolId)] as const)
+    ).then(
+      (entries) => {
+        if (!cancelled) setStates(Object.fromEntries(entries));
+      },
+      (err) => console.error("Error reading pause state:", err)
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [key]);
+
+  useEffect(load, [load]);
+
+  useTransactionSettled((tx) => {
+    if (tx.status === "success" && (tx.kind === "set-paused" || tx.kind === "set-pool-paused")) load();
+  });
+
+  return states;
+}
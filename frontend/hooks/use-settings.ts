@@ -0,0 +1,24 @@
+import {
+  DEFAULT_SETTINGS,
+  loadSettings,
+  onSettingsChange,
+  saveSettings,
+  Settings,
+} from "@/lib/settings";
+import { useEffect, useState } from "react";
+
+export function useSettings() {
+  // Start from the defaults so server and client render the same markup, then load the stored values
+  const [settings, setSettings] = useState<Settings>(DEFAULT_SETTINGS);
+
+  useEffect(() => {
+    setSettings(loadSettings());
+    return onSettingsChange(setSettings);
+  }, []);
+
+  function updateSettings(update: Partial<Settings>) {
+    setSettings(saveSettings(update));
+  }
+
+  return { settings, updateSettings };
+}
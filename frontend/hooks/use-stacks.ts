@@ -1,20 +1,35 @@
 import {
   addLiquidity,
+  canonicalizePair,
+  collectProtocolFees,
+  computePoolId,
   createPool,
   Pool,
   removeLiquidity,
-  swap,
+  setFeeTier,
+  setPaused,
+  setPoolPaused,
+  setProtocolFeeShare,
+  swapExactOutput,
+  swapRoute,
   mintToken,
+  transferPosition,
   getTokenBalance,
+  zapIn,
 } from "@/lib/amm";
+import { networkConfig, networkStxAddress } from "@/lib/network";
+import type { Route } from "@/lib/router";
+import { loadSettings } from "@/lib/settings";
+import { peekTokenMetadata, tokenSymbol } from "@/lib/tokens";
+import { trackTransaction } from "@/lib/transactions";
 import {
   AppConfig,
+  type FinishedTxData,
   openContractCall,
   showConnect,
   type UserData,
   UserSession,
 } from "@stacks/connect";
-import { PostConditionMode } from "@stacks/transactions";
 import { useEffect, useState } from "react";
 
 const appDetails = {
@@ -22,6 +37,9 @@ const appDetails = {
   icon: "https://cryptologos.cc/logos/stacks-stx-logo.png",
 };
 
+// Symbol of a token for transaction descriptions; the components on screen have already loaded its metadata
+const tokenName = (token: string) => tokenSymbol(token, peekTokenMetadata(token));
+
 export function useStacks() {
   const [userData, setUserData] = useState<UserData | null>(null);
 
@@ -43,14 +61,9 @@ export function useStacks() {
     setUserData(null);
   }
 
+  // Address of the connected wallet on the configured network
   function getUserAddress(): string | null {
-    // Prefer testnet address; fallback to mainnet if needed
-    try {
-      const addr = (userData as any)?.profile?.stxAddress?.testnet || (userData as any)?.profile?.stxAddress?.mainnet;
-      return typeof addr === "string" ? addr : null;
-    } catch {
-      return null;
-    }
+    return networkStxAddress(userData?.profile?.stxAddress);
   }
 
   async function handleCreatePool(token0: string, token1: string, fee: number) {
@@ -60,17 +73,16 @@ export function useStacks() {
       await openContractCall({
         ...options,
         appDetails,
-        onFinish: (data: unknown) => {
-          window.alert("Sent create pool transaction");
-          console.log(data);
-          // Refresh the page to re-fetch server-rendered pools
-          setTimeout(() => {
-            try {
-              window.location.reload();
-            } catch {}
-          }, 1500);
+        network: networkConfig.stacksNetwork,
+        onFinish: ({ txId }: FinishedTxData) => {
+          trackTransaction({
+            txId,
+            kind: "create-pool",
+            description: `Create ${tokenName(token0)}/${tokenName(token1)} pool`,
+            poolIds: [computePoolId(...canonicalizePair(token0, token1), fee)],
+            tokens: [],
+          });
         },
-        postConditionMode: PostConditionMode.Allow,
       });
     } catch (_err) {
       const err = _err as Error;
@@ -80,24 +92,28 @@ export function useStacks() {
     }
   }
 
-  async function handleSwap(pool: Pool, amount: number, zeroForOne: boolean) {
+  // Swaps route.amountIn, or buys exactly exactAmountOut when given
+  async function handleSwap(route: Route, exactAmountOut?: bigint) {
     try {
-      if (!userData) throw new Error("User not connected");
-      const options = await swap(pool, amount, zeroForOne);
+      const sender = getUserAddress();
+      if (!userData || !sender) throw new Error("User not connected");
+      const options =
+        exactAmountOut === undefined
+          ? await swapRoute(route, loadSettings(), sender)
+          : await swapExactOutput(route, exactAmountOut, loadSettings(), sender);
       await openContractCall({
         ...options,
         appDetails,
-        onFinish: (data: unknown) => {
-          window.alert("Sent swap transaction");
-          console.log(data);
-          // Refresh balances/UI
-          setTimeout(() => {
-            try {
-              window.location.reload();
-            } catch {}
-          }, 1500);
+        network: networkConfig.stacksNetwork,
+        onFinish: ({ txId }: FinishedTxData) => {
+          trackTransaction({
+            txId,
+            kind: "swap",
+            description: `Swap ${tokenName(route.tokenIn)} for ${tokenName(route.tokenOut)}`,
+            poolIds: route.hops.map((hop) => hop.pool.id),
+            tokens: [route.tokenIn, route.tokenOut],
+          });
         },
-        postConditionMode: PostConditionMode.Allow,
       });
     } catch (_err) {
       const err = _err as Error;
@@ -108,23 +124,211 @@ export function useStacks() {
   }
 
   async function handleAddLiquidity(pool: Pool, amount0: number, amount1: number) {
+    try {
+      const sender = getUserAddress();
+      if (!userData || !sender) throw new Error("User not connected");
+      const options = await addLiquidity(pool, amount0, amount1, loadSettings(), sender);
+      await openContractCall({
+        ...options,
+        appDetails,
+        network: networkConfig.stacksNetwork,
+        onFinish: ({ txId }: FinishedTxData) => {
+          trackTransaction({
+            txId,
+            kind: "add-liquidity",
+            description: `Add ${tokenName(pool["token-0"])}/${tokenName(pool["token-1"])} liquidity`,
+            poolIds: [pool.id],
+            tokens: [pool["token-0"], pool["token-1"]],
+          });
+        },
+      });
+    } catch (_err) {
+      const err = _err as Error;
+      console.log(err);
+      window.alert(err.message);
+      return;
+    }
+  }
+
+  // Deposits amount of one of the pool's tokens, token-0 when zeroForOne
+  async function handleZapIn(pool: Pool, amount: number, zeroForOne: boolean) {
+    try {
+      const sender = getUserAddress();
+      if (!userData || !sender) throw new Error("User not connected");
+      const options = await zapIn(pool, amount, zeroForOne, loadSettings(), sender);
+      const inputToken = zeroForOne ? pool["token-0"] : pool["token-1"];
+      await openContractCall({
+        ...options,
+        appDetails,
+        network: networkConfig.stacksNetwork,
+        onFinish: ({ txId }: FinishedTxData) => {
+          trackTransaction({
+            txId,
+            kind: "zap-in",
+            description: `Add ${tokenName(pool["token-0"])}/${tokenName(pool["token-1"])} liquidity with ${tokenName(inputToken)}`,
+            poolIds: [pool.id],
+            tokens: [pool["token-0"], pool["token-1"]],
+          });
+        },
+      });
+    } catch (_err) {
+      const err = _err as Error;
+      console.log(err);
+      window.alert(err.message);
+      return;
+    }
+  }
+
+  async function handleRemoveLiquidity(pool: Pool, liquidity: bigint) {
+    try {
+      if (!userData) throw new Error("User not connected");
+      const options = await removeLiquidity(pool, liquidity, loadSettings());
+      await openContractCall({
+        ...options,
+        appDetails,
+        network: networkConfig.stacksNetwork,
+        onFinish: ({ txId }: FinishedTxData) => {
+          trackTransaction({
+            txId,
+            kind: "remove-liquidity",
+            description: `Remove ${tokenName(pool["token-0"])}/${tokenName(pool["token-1"])} liquidity`,
+            poolIds: [pool.id],
+            tokens: [pool["token-0"], pool["token-1"]],
+          });
+        },
+      });
+    } catch (_err) {
+      const err = _err as Error;
+      console.log(err);
+      window.alert(err.message);
+      return;
+    }
+  }
+
+  async function handleTransferPosition(pool: Pool, liquidity: bigint, recipient: string) {
+    try {
+      if (!userData) throw new Error("User not connected");
+      const sender = getUserAddress();
+      if (!sender) throw new Error("Could not resolve user address");
+      const options = await transferPosition(pool, liquidity, sender, recipient);
+      await openContractCall({
+        ...options,
+        appDetails,
+        network: networkConfig.stacksNetwork,
+        onFinish: ({ txId }: FinishedTxData) => {
+          trackTransaction({
+            txId,
+            kind: "transfer-position",
+            description: `Transfer ${tokenName(pool["token-0"])}/${tokenName(pool["token-1"])} liquidity`,
+            poolIds: [pool.id],
+            tokens: [],
+          });
+        },
+      });
+    } catch (_err) {
+      const err = _err as Error;
+      console.log(err);
+      window.alert(err.message);
+      return;
+    }
+  }
+
+  // Admin functions, only the contract owner's calls succeed
+  async function handleSetProtocolFeeShare(share: number) {
+    try {
+      if (!userData) throw new Error("User not connected");
+      const options = await setProtocolFeeShare(share);
+      await openContractCall({
+        ...options,
+        appDetails,
+        network: networkConfig.stacksNetwork,
+        onFinish: ({ txId }: FinishedTxData) => {
+          trackTransaction({
+            txId,
+            kind: "set-protocol-fee",
+            description: `Set protocol fee share to ${share / 100}% of swap fees`,
+            poolIds: [],
+            tokens: [],
+          });
+        },
+      });
+    } catch (_err) {
+      const err = _err as Error;
+      console.log(err);
+      window.alert(err.message);
+      return;
+    }
+  }
+
+  async function handleSetFeeTier(fee: number, enabled: boolean) {
+    try {
+      if (!userData) throw new Error("User not connected");
+      const options = await setFeeTier(fee, enabled);
+      await openContractCall({
+        ...options,
+        appDetails,
+        network: networkConfig.stacksNetwork,
+        onFinish: ({ txId }: FinishedTxData) => {
+          trackTransaction({
+            txId,
+            kind: "set-fee-tier",
+            description: `${enabled ? "Enable" : "Disable"} the ${fee / 100}% fee tier`,
+            poolIds: [],
+            tokens: [],
+          });
+        },
+      });
+    } catch (_err) {
+      const err = _err as Error;
+      console.log(err);
+      window.alert(err.message);
+      return;
+    }
+  }
+
+  async function handleCollectProtocolFees(pool: Pool, recipient: string) {
+    try {
+      if (!userData) throw new Error("User not connected");
+      const options = await collectProtocolFees(pool, recipient);
+      await openContractCall({
+        ...options,
+        appDetails,
+        network: networkConfig.stacksNetwork,
+        onFinish: ({ txId }: FinishedTxData) => {
+          trackTransaction({
+            txId,
+            kind: "collect-protocol-fees",
+            description: `Collect ${tokenName(pool["token-0"])}/${tokenName(pool["token-1"])} protocol fees`,
+            poolIds: [pool.id],
+            tokens: [pool["token-0"], pool["token-1"]],
+          });
+        },
+      });
+    } catch (_err) {
+      const err = _err as Error;
+      console.log(err);
+      window.alert(err.message);
+      return;
+    }
+  }
+
+  async function handleSetPaused(paused: boolean) {
     try {
       if (!userData) throw new Error("User not connected");
-      const options = await addLiquidity(pool, amount0, amount1);
+      const options = await setPaused(paused);
       await openContractCall({
         ...options,
         appDetails,
-        onFinish: (data: unknown) => {
-          window.alert("Sent add liquidity transaction");
-          console.log({ data });
-          // Refresh pools and balances
-          setTimeout(() => {
-            try {
-              window.location.reload();
-            } catch {}
-          }, 1500);
+        network: networkConfig.stacksNetwork,
+        onFinish: ({ txId }: FinishedTxData) => {
+          trackTransaction({
+            txId,
+            kind: "set-paused",
+            description: `${paused ? "Pause" : "Resume"} swaps and deposits on every pool`,
+            poolIds: [],
+            tokens: [],
+          });
         },
-        postConditionMode: PostConditionMode.Allow,
       });
     } catch (_err) {
       const err = _err as Error;
@@ -134,24 +338,23 @@ export function useStacks() {
     }
   }
 
-  async function handleRemoveLiquidity(pool: Pool, liquidity: number) {
+  async function handleSetPoolPaused(pool: Pool, paused: boolean) {
     try {
       if (!userData) throw new Error("User not connected");
-      const options = await removeLiquidity(pool, liquidity);
+      const options = await setPoolPaused(pool, paused);
       await openContractCall({
         ...options,
         appDetails,
-        onFinish: (data: unknown) => {
-          window.alert("Sent remove liquidity transaction");
-          console.log(data);
-          // Refresh pools and balances
-          setTimeout(() => {
-            try {
-              window.location.reload();
-            } catch {}
-          }, 1500);
+        network: networkConfig.stacksNetwork,
+        onFinish: ({ txId }: FinishedTxData) => {
+          trackTransaction({
+            txId,
+            kind: "set-pool-paused",
+            description: `${paused ? "Pause" : "Resume"} the ${tokenName(pool["token-0"])}/${tokenName(pool["token-1"])} pool`,
+            poolIds: [pool.id],
+            tokens: [],
+          });
         },
-        postConditionMode: PostConditionMode.Allow,
       });
     } catch (_err) {
       const err = _err as Error;
@@ -171,11 +374,16 @@ export function useStacks() {
       await openContractCall({
         ...options,
         appDetails,
-        onFinish: (data: unknown) => {
-          window.alert("Sent mint transaction");
-          console.log(data);
+        network: networkConfig.stacksNetwork,
+        onFinish: ({ txId }: FinishedTxData) => {
+          trackTransaction({
+            txId,
+            kind: "mint",
+            description: `Mint ${tokenName(tokenContract)}`,
+            poolIds: [],
+            tokens: [tokenContract],
+          });
         },
-        postConditionMode: PostConditionMode.Allow,
       });
     } catch (_err) {
       const err = _err as Error;
@@ -214,12 +422,20 @@ export function useStacks() {
   // ✅ Return everything you need outside this hook
   return {
     userData,
+    getUserAddress,
     connectWallet,
     disconnectWallet,
     handleCreatePool,
     handleSwap,
     handleAddLiquidity,
+    handleZapIn,
     handleRemoveLiquidity,
+    handleTransferPosition,
+    handleSetProtocolFeeShare,
+    handleSetFeeTier,
+    handleCollectProtocolFees,
+    handleSetPaused,
+    handleSetPoolPaused,
     handleMint,
     readTokenBalance,
   };
@@ -0,0 +1,25 @@
+import { getTokensMetadata, TokenMetadata } from "@/lib/tokens";
+import { useEffect, useState } from "react";
+
+/**
+ * Metadata of `tokens`, keyed by contract. Starts empty so server and client render the same markup,
+ * then fills in as reads settle; tokens that fail to load stay missing.
+ */
+export function useTokenMetadata(tokens: string[]): Record<string, TokenMetadata> {
+  const [metadata, setMetadata] = useState<Record<string, TokenMetadata>>({});
+  // Depend on the token set rather than the array, which callers usually rebuild every render
+  const key = Array.from(new Set(tokens)).sort().join(",");
+
+  useEffect(() => {
+    if (!key) return;
+    let cancelled = false;
+    getTokensMetadata(key.split(",")).then((loaded) => {
+      if (!cancelled) setMetadata((prev) => ({ ...prev, ...loaded }));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [key]);
+
+  return metadata;
+}
@@ -0,0 +1,25 @@
+import { loadTransactions, onTransactionSettled, onTransactionsChange, TrackedTx } from "@/lib/transactions";
+import { useEffect, useRef, useState } from "react";
+
+export function useTransactions() {
+  // Start empty so server and client render the same markup, then load the stored entries
+  const [transactions, setTransactions] = useState<TrackedTx[]>([]);
+
+  useEffect(() => {
+    setTransactions(loadTransactions());
+    return onTransactionsChange(setTransactions);
+  }, []);
+
+  return transactions;
+}
+
+/**
+ * Run `listener` whenever a tracked transaction reaches a final status.
+ */
+export function useTransactionSettled(listener: (tx: TrackedTx) => void) {
+  // Keep the latest listener without resubscribing on every render
+  const listenerRef = useRef(listener);
+  listenerRef.current = listener;
+
+  useEffect(() => onTransactionSettled((tx) => listenerRef.current(tx)), []);
+}
@@ -0,0 +1,344 @@
+/**
+ * Catalog of the error codes returned by contracts/amm.clar.
+ *
+ * Every `ERR_*` constant in the contract has an entry here with a typed error class and a
+ * user-facing message. Keep this module free of imports so amm-math.ts and the simnet tests can use it.
+ */
+
+export const AmmErrorCode = {
+  POOL_ALREADY_EXISTS: 200,
+  INCORRECT_TOKEN_ORDERING: 201,
+  INSUFFICIENT_LIQUIDITY_MINTED: 202,
+  INSUFFICIENT_LIQUIDITY_OWNED: 203,
+  INSUFFICIENT_LIQUIDITY_BURNED: 204,
+  INSUFFICIENT_INPUT_AMOUNT: 205,
+  INSUFFICIENT_LIQUIDITY_FOR_SWAP: 206,
+  INSUFFICIENT_1_AMOUNT: 207,
+  INSUFFICIENT_0_AMOUNT: 208,
+  INSUFFICIENT_OUTPUT_AMOUNT: 209,
+  POOL_NOT_FOUND: 210,
+  POSITION_LOOKUP_FAILED: 211,
+  DEADLINE_EXPIRED: 212,
+  EXCESSIVE_INPUT_AMOUNT: 213,
+  INSUFFICIENT_OUTPUT_REQUESTED: 214,
+  NOT_POSITION_OWNER: 215,
+  INSUFFICIENT_TRANSFER_AMOUNT: 216,
+  INVALID_RECIPIENT: 217,
+  NOT_CONTRACT_OWNER: 218,
+  INVALID_PROTOCOL_FEE_SHARE: 219,
+  INVALID_TWAP_WINDOW: 220,
+  INVALID_FEE_TIER: 221,
+  TOO_MANY_FEE_TIERS: 222,
+  FEE_TIER_NOT_ENABLED: 223,
+  INSUFFICIENT_LIQUIDITY_RECEIVED: 224,
+  FLASH_SWAP_NOT_REPAID: 225,
+  NOT_GUARDIAN: 226,
+  PAUSED: 227,
+  INSUFFICIENT_INITIAL_LIQUIDITY: 228,
+  POOL_EMPTY: 229,
+} as const;
+
+export type AmmErrorCode = (typeof AmmErrorCode)[keyof typeof AmmErrorCode];
+
+export const AMM_ERROR_MESSAGES: Record<AmmErrorCode, string> = {
+  [AmmErrorCode.POOL_ALREADY_EXISTS]: "Pool already exists",
+  [AmmErrorCode.INCORRECT_TOKEN_ORDERING]: "Pool tokens are in the wrong order",
+  [AmmErrorCode.INSUFFICIENT_LIQUIDITY_MINTED]: "Deposit is too small to mint any liquidity",
+  [AmmErrorCode.INSUFFICIENT_LIQUIDITY_OWNED]: "You don't own that much liquidity in this pool",
+  [AmmErrorCode.INSUFFICIENT_LIQUIDITY_BURNED]: "Withdrawal is too small to return both tokens",
+  [AmmErrorCode.INSUFFICIENT_INPUT_AMOUNT]: "Swap amount must be greater than zero",
+  [AmmErrorCode.INSUFFICIENT_LIQUIDITY_FOR_SWAP]: "Insufficient liquidity for swap",
+  [AmmErrorCode.INSUFFICIENT_1_AMOUNT]: "Token 1 amount moved below your minimum (slippage tolerance exceeded)",
+  [AmmErrorCode.INSUFFICIENT_0_AMOUNT]: "Token 0 amount moved below your minimum (slippage tolerance exceeded)",
+  [AmmErrorCode.INSUFFICIENT_OUTPUT_AMOUNT]: "Swap output moved below your minimum (slippage tolerance exceeded)",
+  [AmmErrorCode.POOL_NOT_FOUND]: "Pool does not exist",
+  [AmmErrorCode.POSITION_LOOKUP_FAILED]: "Could not read your liquidity position",
+  [AmmErrorCode.DEADLINE_EXPIRED]: "Transaction deadline passed before it was mined",
+  [AmmErrorCode.EXCESSIVE_INPUT_AMOUNT]: "Swap input moved above your maximum (slippage tolerance exceeded)",
+  [AmmErrorCode.INSUFFICIENT_OUTPUT_REQUESTED]: "Requested output must be greater than zero",
+  [AmmErrorCode.NOT_POSITION_OWNER]: "Only the position owner can transfer its liquidity",
+  [AmmErrorCode.INSUFFICIENT_TRANSFER_AMOUNT]: "Transfer amount must be greater than zero",
+  [AmmErrorCode.INVALID_RECIPIENT]: "Cannot transfer liquidity to yourself",
+  [AmmErrorCode.NOT_CONTRACT_OWNER]: "Only the contract owner can do this",
+  [AmmErrorCode.INVALID_PROTOCOL_FEE_SHARE]: "Protocol fee share cannot exceed 100% of the swap fee",
+  [AmmErrorCode.INVALID_TWAP_WINDOW]: "TWAP window must be at least one block and start after the first block",
+  [AmmErrorCode.INVALID_FEE_TIER]: "Fee tier must be below 10000 (100%)",
+  [AmmErrorCode.TOO_MANY_FEE_TIERS]: "The fee tier list is full",
+  [AmmErrorCode.FEE_TIER_NOT_ENABLED]: "Pools can't be created with this fee tier",
+  [AmmErrorCode.INSUFFICIENT_LIQUIDITY_RECEIVED]: "Liquidity minted moved below your minimum (slippage tolerance exceeded)",
+  [AmmErrorCode.FLASH_SWAP_NOT_REPAID]: "Flash swap was not repaid with the pool fee",
+  [AmmErrorCode.NOT_GUARDIAN]: "Only the guardian can pause or resume the AMM",
+  [AmmErrorCode.PAUSED]: "Swaps and deposits are paused for this pool; withdrawals still work",
+  [AmmErrorCode.INSUFFICIENT_INITIAL_LIQUIDITY]: "First deposit into a pool is too small to mint liquidity above the locked minimum",
+  [AmmErrorCode.POOL_EMPTY]: "This pool has no liquidity to withdraw",
+};
+
+export class AmmError extends Error {
+  constructor(public readonly code: AmmErrorCode) {
+    super(AMM_ERROR_MESSAGES[code]);
+    this.name = "AmmError";
+  }
+}
+
+export class PoolAlreadyExistsError extends AmmError {
+  constructor() {
+    super(AmmErrorCode.POOL_ALREADY_EXISTS);
+    this.name = "PoolAlreadyExistsError";
+  }
+}
+
+export class IncorrectTokenOrderingError extends AmmError {
+  constructor() {
+    super(AmmErrorCode.INCORRECT_TOKEN_ORDERING);
+    this.name = "IncorrectTokenOrderingError";
+  }
+}
+
+export class InsufficientLiquidityMintedError extends AmmError {
+  constructor() {
+    super(AmmErrorCode.INSUFFICIENT_LIQUIDITY_MINTED);
+    this.name = "InsufficientLiquidityMintedError";
+  }
+}
+
+export class InsufficientLiquidityOwnedError extends AmmError {
+  constructor() {
+    super(AmmErrorCode.INSUFFICIENT_LIQUIDITY_OWNED);
+    this.name = "InsufficientLiquidityOwnedError";
+  }
+}
+
+export class InsufficientLiquidityBurnedError extends AmmError {
+  constructor() {
+    super(AmmErrorCode.INSUFFICIENT_LIQUIDITY_BURNED);
+    this.name = "InsufficientLiquidityBurnedError";
+  }
+}
+
+export class InsufficientInputAmountError extends AmmError {
+  constructor() {
+    super(AmmErrorCode.INSUFFICIENT_INPUT_AMOUNT);
+    this.name = "InsufficientInputAmountError";
+  }
+}
+
+export class InsufficientLiquidityForSwapError extends AmmError {
+  constructor() {
+    super(AmmErrorCode.INSUFFICIENT_LIQUIDITY_FOR_SWAP);
+    this.name = "InsufficientLiquidityForSwapError";
+  }
+}
+
+export class Insufficient1AmountError extends AmmError {
+  constructor() {
+    super(AmmErrorCode.INSUFFICIENT_1_AMOUNT);
+    this.name = "Insufficient1AmountError";
+  }
+}
+
+export class Insufficient0AmountError extends AmmError {
+  constructor() {
+    super(AmmErrorCode.INSUFFICIENT_0_AMOUNT);
+    this.name = "Insufficient0AmountError";
+  }
+}
+
+export class InsufficientOutputAmountError extends AmmError {
+  constructor() {
+    super(AmmErrorCode.INSUFFICIENT_OUTPUT_AMOUNT);
+    this.name = "InsufficientOutputAmountError";
+  }
+}
+
+export class PoolNotFoundError extends AmmError {
+  constructor() {
+    super(AmmErrorCode.POOL_NOT_FOUND);
+    this.name = "PoolNotFoundError";
+  }
+}
+
+export class PositionLookupFailedError extends AmmError {
+  constructor() {
+    super(AmmErrorCode.POSITION_LOOKUP_FAILED);
+    this.name = "PositionLookupFailedError";
+  }
+}
+
+export class DeadlineExpiredError extends AmmError {
+  constructor() {
+    super(AmmErrorCode.DEADLINE_EXPIRED);
+    this.name = "DeadlineExpiredError";
+  }
+}
+
+export class ExcessiveInputAmountError extends AmmError {
+  constructor() {
+    super(AmmErrorCode.EXCESSIVE_INPUT_AMOUNT);
+    this.name = "ExcessiveInputAmountError";
+  }
+}
+
+export class InsufficientOutputRequestedError extends AmmError {
+  constructor() {
+    super(AmmErrorCode.INSUFFICIENT_OUTPUT_REQUESTED);
+    this.name = "InsufficientOutputRequestedError";
+  }
+}
+
+export class NotPositionOwnerError extends AmmError {
+  constructor() {
+    super(AmmErrorCode.NOT_POSITION_OWNER);
+    this.name = "NotPositionOwnerError";
+  }
+}
+
+export class InsufficientTransferAmountError extends AmmError {
+  constructor() {
+    super(AmmErrorCode.INSUFFICIENT_TRANSFER_AMOUNT);
+    this.name = "InsufficientTransferAmountError";
+  }
+}
+
+export class InvalidRecipientError extends AmmError {
+  constructor() {
+    super(AmmErrorCode.INVALID_RECIPIENT);
+    this.name = "InvalidRecipientError";
+  }
+}
+
+export class NotContractOwnerError extends AmmError {
+  constructor() {
+    super(AmmErrorCode.NOT_CONTRACT_OWNER);
+    this.name = "NotContractOwnerError";
+  }
+}
+
+export class InvalidProtocolFeeShareError extends AmmError {
+  constructor() {
+    super(AmmErrorCode.INVALID_PROTOCOL_FEE_SHARE);
+    this.name = "InvalidProtocolFeeShareError";
+  }
+}
+
+export class InvalidTwapWindowError extends AmmError {
+  constructor() {
+    super(AmmErrorCode.INVALID_TWAP_WINDOW);
+    this.name = "InvalidTwapWindowError";
+  }
+}
+
+export class InvalidFeeTierError extends AmmError {
+  constructor() {
+    super(AmmErrorCode.INVALID_FEE_TIER);
+    this.name = "InvalidFeeTierError";
+  }
+}
+
+export class TooManyFeeTiersError extends AmmError {
+  constructor() {
+    super(AmmErrorCode.TOO_MANY_FEE_TIERS);
+    this.name = "TooManyFeeTiersError";
+  }
+}
+
+export class FeeTierNotEnabledError extends AmmError {
+  constructor() {
+    super(AmmErrorCode.FEE_TIER_NOT_ENABLED);
+    this.name = "FeeTierNotEnabledError";
+  }
+}
+
+export class InsufficientLiquidityReceivedError extends AmmError {
+  constructor() {
+    super(AmmErrorCode.INSUFFICIENT_LIQUIDITY_RECEIVED);
+    this.name = "InsufficientLiquidityReceivedError";
+  }
+}
+
+export class FlashSwapNotRepaidError extends AmmError {
+  constructor() {
+    super(AmmErrorCode.FLASH_SWAP_NOT_REPAID);
+    this.name = "FlashSwapNotRepaidError";
+  }
+}
+
+export class NotGuardianError extends AmmError {
+  constructor() {
+    super(AmmErrorCode.NOT_GUARDIAN);
+    this.name = "NotGuardianError";
+  }
+}
+
+export class PausedError extends AmmError {
+  constructor() {
+    super(AmmErrorCode.PAUSED);
+    this.name = "PausedError";
+  }
+}
+
+export class InsufficientInitialLiquidityError extends AmmError {
+  constructor() {
+    super(AmmErrorCode.INSUFFICIENT_INITIAL_LIQUIDITY);
+    this.name = "InsufficientInitialLiquidityError";
+  }
+}
+
+export class PoolEmptyError extends AmmError {
+  constructor() {
+    super(AmmErrorCode.POOL_EMPTY);
+    this.name = "PoolEmptyError";
+  }
+}
+
+const ERROR_CLASSES: Record<AmmErrorCode, new () => AmmError> = {
+  [AmmErrorCode.POOL_ALREADY_EXISTS]: PoolAlreadyExistsError,
+  [AmmErrorCode.INCORRECT_TOKEN_ORDERING]: IncorrectTokenOrderingError,
+  [AmmErrorCode.INSUFFICIENT_LIQUIDITY_MINTED]: InsufficientLiquidityMintedError,
+  [AmmErrorCode.INSUFFICIENT_LIQUIDITY_OWNED]: InsufficientLiquidityOwnedError,
+  [AmmErrorCode.INSUFFICIENT_LIQUIDITY_BURNED]: InsufficientLiquidityBurnedError,
+  [AmmErrorCode.INSUFFICIENT_INPUT_AMOUNT]: InsufficientInputAmountError,
+  [AmmErrorCode.INSUFFICIENT_LIQUIDITY_FOR_SWAP]: InsufficientLiquidityForSwapError,
+  [AmmErrorCode.INSUFFICIENT_1_AMOUNT]: Insufficient1AmountError,
+  [AmmErrorCode.INSUFFICIENT_0_AMOUNT]: Insufficient0AmountError,
+  [AmmErrorCode.INSUFFICIENT_OUTPUT_AMOUNT]: InsufficientOutputAmountError,
+  [AmmErrorCode.POOL_NOT_FOUND]: PoolNotFoundError,
+  [AmmErrorCode.POSITION_LOOKUP_FAILED]: PositionLookupFailedError,
+  [AmmErrorCode.DEADLINE_EXPIRED]: DeadlineExpiredError,
+  [AmmErrorCode.EXCESSIVE_INPUT_AMOUNT]: ExcessiveInputAmountError,
+  [AmmErrorCode.INSUFFICIENT_OUTPUT_REQUESTED]: InsufficientOutputRequestedError,
+  [AmmErrorCode.NOT_POSITION_OWNER]: NotPositionOwnerError,
+  [AmmErrorCode.INSUFFICIENT_TRANSFER_AMOUNT]: InsufficientTransferAmountError,
+  [AmmErrorCode.INVALID_RECIPIENT]: InvalidRecipientError,
+  [AmmErrorCode.NOT_CONTRACT_OWNER]: NotContractOwnerError,
+  [AmmErrorCode.INVALID_PROTOCOL_FEE_SHARE]: InvalidProtocolFeeShareError,
+  [AmmErrorCode.INVALID_TWAP_WINDOW]: InvalidTwapWindowError,
+  [AmmErrorCode.INVALID_FEE_TIER]: InvalidFeeTierError,
+  [AmmErrorCode.TOO_MANY_FEE_TIERS]: TooManyFeeTiersError,
+  [AmmErrorCode.FEE_TIER_NOT_ENABLED]: FeeTierNotEnabledError,
+  [AmmErrorCode.INSUFFICIENT_LIQUIDITY_RECEIVED]: InsufficientLiquidityReceivedError,
+  [AmmErrorCode.FLASH_SWAP_NOT_REPAID]: FlashSwapNotRepaidError,
+  [AmmErrorCode.NOT_GUARDIAN]: NotGuardianError,
+  [AmmErrorCode.PAUSED]: PausedError,
+  [AmmErrorCode.INSUFFICIENT_INITIAL_LIQUIDITY]: InsufficientInitialLiquidityError,
+  [AmmErrorCode.POOL_EMPTY]: PoolEmptyError,
+};
+
+export function isAmmErrorCode(code: number | bigint): code is AmmErrorCode {
+  return Object.prototype.hasOwnProperty.call(ERROR_CLASSES, Number(code));
+}
+
+/**
+ * The typed error for a contract abort code, or null for codes the AMM doesn't define
+ * (for example errors bubbled up from a token's `transfer`).
+ */
+export function ammErrorFromCode(code: number | bigint): AmmError | null {
+  if (!isAmmErrorCode(code)) return null;
+  return new ERROR_CLASSES[Number(code) as AmmErrorCode]();
+}
+
+/**
+ * User-facing text for any abort code.
+ */
+export function describeErrorCode(code: number | bigint): string {
+  return ammErrorFromCode(code)?.message ?? `Transaction failed with error code u${code}`;
+}
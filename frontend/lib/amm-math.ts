@@ -0,0 +1,355 @@
+/**
+ * Exact bigint mirror of the arithmetic in contracts/amm.clar.
+ *
+ * Every function here reproduces the contract step by step, including Clarity's truncating
+ * integer division, so quotes match on-chain results to the base unit. Where the contract
+ * would abort, these functions throw an `AmmMathError` carrying the same error code
+ * (or `null` for Clarity runtime errors such as underflow and division by zero).
+ *
+ * Only import the dependency-free error catalog, so this runs in the browser, on the server and in simnet tests.
+ */
+
+import { AMM_ERROR_MESSAGES, AmmErrorCode } from "./amm-errors";
+
+export const MINIMUM_LIQUIDITY = 1000n;
+export const FEES_DENOM = 10000n;
+export const PRICE_PRECISION = 10n ** 12n;
+
+export class AmmMathError extends Error {
+  constructor(public readonly code: AmmErrorCode | null, message: string) {
+    super(message);
+    this.name = "AmmMathError";
+  }
+}
+
+// The abort the contract would return for `code`, with its catalog message
+function contractError(code: AmmErrorCode): AmmMathError {
+  return new AmmMathError(code, AMM_ERROR_MESSAGES[code]);
+}
+
+export type PoolReserves = {
+  liquidity: bigint;
+  balance0: bigint;
+  balance1: bigint;
+};
+
+// Clarity's `-` aborts on underflow instead of wrapping
+function sub(a: bigint, b: bigint): bigint {
+  if (b > a) throw new AmmMathError(null, "Arithmetic underflow");
+  return a - b;
+}
+
+// Clarity's `/` truncates and aborts on division by zero
+function div(a: bigint, b: bigint): bigint {
+  if (b === 0n) throw new AmmMathError(null, "Division by zero");
+  return a / b;
+}
+
+function min(a: bigint, b: bigint): bigint {
+  return a < b ? a : b;
+}
+
+/**
+ * Integer square root, rounded down (Clarity's `sqrti`).
+ */
+export function sqrti(n: bigint): bigint {
+  if (n < 0n) throw new AmmMathError(null, "sqrti of a negative number");
+  if (n < 2n) return n;
+  // Newton's method converges from above to floor(sqrt(n))
+  let x = n;
+  let y = (x + 1n) / 2n;
+  while (y < x) {
+    x = y;
+    y = (x + n / x) / 2n;
+  }
+  return x;
+}
+
+export type SwapQuote = {
+  outputAmount: bigint; // amount sent to the user, after fees
+  grossOutput: bigint; // output before fees
+  fees: bigint; // fees charged on the output, including the protocol's share
+  protocolFee: bigint; // part of the fees that accrues to the protocol instead of the pool
+  balance0After: bigint;
+  balance1After: bigint;
+};
+
+/**
+ * Mirror of `swap`: output = outputBalance - k / (inputBalance + input), minus `fee / FEES_DENOM` of it.
+ * `protocolFeeShare` (out of FEES_DENOM) of those fees leaves the pool balances as the protocol fee.
+ */
+export function quoteSwap(
+  reserves: Pick<PoolReserves, "balance0" | "balance1">,
+  fee: bigint,
+  inputAmount: bigint,
+  zeroForOne: boolean,
+  protocolFeeShare = 0n
+): SwapQuote {
+  const { balance0, balance1 } = reserves;
+  const k = balance0 * balance1;
+  const inputBalance = zeroForOne ? balance0 : balance1;
+  const outputBalance = zeroForOne ? balance1 : balance0;
+
+  const grossOutput = sub(outputBalance, div(k, inputBalance + inputAmount));
+  const fees = div(grossOutput * fee, FEES_DENOM);
+  const outputAmount = sub(grossOutput, fees);
+  const protocolFee = div(fees * protocolFeeShare, FEES_DENOM);
+  const outOfPool = outputAmount + protocolFee;
+
+  if (inputAmount <= 0n) {
+    throw contractError(AmmErrorCode.INSUFFICIENT_INPUT_AMOUNT);
+  }
+  if (outputAmount <= 0n || outOfPool >= outputBalance) {
+    throw contractError(AmmErrorCode.INSUFFICIENT_LIQUIDITY_FOR_SWAP);
+  }
+
+  return {
+    outputAmount,
+    grossOutput,
+    fees,
+    protocolFee,
+    balance0After: zeroForOne ? balance0 + inputAmount : balance0 - outOfPool,
+    balance1After: zeroForOne ? balance1 - outOfPool : balance1 + inputAmount,
+  };
+}
+
+export type ExactOutputQuote = SwapQuote & {
+  inputAmount: bigint;
+};
+
+/**
+ * Mirror of `get-swap-input-amount` followed by the swap `swap-exact-output` executes: the smallest
+ * input that pays out at least outputAmount after fees. The swap can pay out a little more than
+ * requested when rounding means no input pays out exactly outputAmount.
+ */
+export function quoteSwapExactOutput(
+  reserves: Pick<PoolReserves, "balance0" | "balance1">,
+  fee: bigint,
+  outputAmount: bigint,
+  zeroForOne: boolean,
+  protocolFeeShare = 0n
+): ExactOutputQuote {
+  const { balance0, balance1 } = reserves;
+  const inputBalance = zeroForOne ? balance0 : balance1;
+  const outputBalance = zeroForOne ? balance1 : balance0;
+
+  if (outputAmount <= 0n) {
+    throw contractError(AmmErrorCode.INSUFFICIENT_OUTPUT_REQUESTED);
+  }
+  // Smallest gross output whose fee-adjusted payout still reaches outputAmount
+  const grossOutput = div((outputAmount - 1n) * FEES_DENOM, sub(FEES_DENOM, fee)) + 1n;
+  if (grossOutput >= outputBalance) {
+    throw contractError(AmmErrorCode.INSUFFICIENT_LIQUIDITY_FOR_SWAP);
+  }
+
+  const inputAmount = sub(
+    div(inputBalance * outputBalance, outputBalance - grossOutput + 1n) + 1n,
+    inputBalance
+  );
+  return { inputAmount, ...quoteSwap(reserves, fee, inputAmount, zeroForOne, protocolFeeShare) };
+}
+
+/**
+ * Mirror of the private `get-amounts`: the token amounts actually deposited into a pool
+ * that already has liquidity, given the desired and minimum amounts.
+ */
+export function getAmounts(
+  amount0Desired: bigint,
+  amount1Desired: bigint,
+  amount0Min: bigint,
+  amount1Min: bigint,
+  balance0: bigint,
+  balance1: bigint
+): { amount0: bigint; amount1: bigint } {
+  const amount1Given0 = div(amount0Desired * balance1, balance0);
+  const amount0Given1 = div(amount1Desired * balance0, balance1);
+
+  if (amount1Given0 <= amount1Desired) {
+    if (amount1Given0 < amount1Min) {
+      throw contractError(AmmErrorCode.INSUFFICIENT_1_AMOUNT);
+    }
+    return { amount0: amount0Desired, amount1: amount1Given0 };
+  }
+
+  if (amount0Given1 > amount0Desired || amount0Given1 < amount0Min) {
+    throw contractError(AmmErrorCode.INSUFFICIENT_0_AMOUNT);
+  }
+  return { amount0: amount0Given1, amount1: amount1Desired };
+}
+
+export type AddLiquidityQuote = {
+  amount0: bigint;
+  amount1: bigint;
+  liquidityMinted: bigint; // credited to the depositor's position
+  poolLiquidityAfter: bigint;
+};
+
+/**
+ * Mirror of `add-liquidity`. The first deposit mints sqrti(amount0 * amount1) and locks
+ * MINIMUM_LIQUIDITY of it in the pool forever; later deposits mint pro rata to the smaller side.
+ */
+export function quoteAddLiquidity(
+  reserves: PoolReserves,
+  amount0Desired: bigint,
+  amount1Desired: bigint,
+  amount0Min = 0n,
+  amount1Min = 0n
+): AddLiquidityQuote {
+  const { liquidity, balance0, balance1 } = reserves;
+  const isInitial = liquidity === 0n;
+
+  const { amount0, amount1 } = isInitial
+    ? { amount0: amount0Desired, amount1: amount1Desired }
+    : getAmounts(amount0Desired, amount1Desired, amount0Min, amount1Min, balance0, balance1);
+
+  if (isInitial && sqrti(amount0 * amount1) <= MINIMUM_LIQUIDITY) {
+    throw contractError(AmmErrorCode.INSUFFICIENT_INITIAL_LIQUIDITY);
+  }
+
+  const liquidityMinted = isInitial
+    ? sub(sqrti(amount0 * amount1), MINIMUM_LIQUIDITY)
+    : min(div(amount0 * liquidity, balance0), div(amount1 * liquidity, balance1));
+
+  if (liquidityMinted <= 0n) {
+    throw contractError(AmmErrorCode.INSUFFICIENT_LIQUIDITY_MINTED);
+  }
+
+  return {
+    amount0,
+    amount1,
+    liquidityMinted,
+    poolLiquidityAfter: liquidity + liquidityMinted + (isInitial ? MINIMUM_LIQUIDITY : 0n),
+  };
+}
+
+/**
+ * Mirror of `get-zap-swap-amount`: the share of inputAmount a zap swaps so the remainder and the swap
+ * output match the pool's post-swap ratio.
+ */
+export function zapSwapAmount(inputBalance: bigint, fee: bigint, inputAmount: bigint): bigint {
+  const balanceTerm = inputBalance * (2n * FEES_DENOM - fee);
+  const inputTerm = inputAmount * fee;
+  const positive = balanceTerm >= inputTerm;
+  const coefficient = div(positive ? balanceTerm - inputTerm : inputTerm - balanceTerm, FEES_DENOM);
+  const root = sqrti(coefficient * coefficient + 4n * inputAmount * inputBalance);
+  return div(positive ? sub(root, coefficient) : root + coefficient, 2n);
+}
+
+export type ZapQuote = AddLiquidityQuote & {
+  swapAmount: bigint; // part of the input swapped for the other token
+  swap: SwapQuote;
+  // Base units of each token left with the depositor after the deposit
+  leftover0: bigint;
+  leftover1: bigint;
+};
+
+/**
+ * Mirror of `zap-in`: swap `zapSwapAmount` of the input through the pool, then deposit the rest of the
+ * input with the swap output at the post-swap ratio.
+ */
+export function quoteZap(
+  reserves: PoolReserves,
+  fee: bigint,
+  inputAmount: bigint,
+  zeroForOne: boolean,
+  protocolFeeShare = 0n
+): ZapQuote {
+  const inputBalance = zeroForOne ? reserves.balance0 : reserves.balance1;
+  const swapAmount = zapSwapAmount(inputBalance, fee, inputAmount);
+  const swap = quoteSwap(reserves, fee, swapAmount, zeroForOne, protocolFeeShare);
+  const remaining = sub(inputAmount, swapAmount);
+  const desired0 = zeroForOne ? remaining : swap.outputAmount;
+  const desired1 = zeroForOne ? swap.outputAmount : remaining;
+  const deposit = quoteAddLiquidity(
+    { liquidity: reserves.liquidity, balance0: swap.balance0After, balance1: swap.balance1After },
+    desired0,
+    desired1
+  );
+  return {
+    ...deposit,
+    swapAmount,
+    swap,
+    leftover0: desired0 - deposit.amount0,
+    leftover1: desired1 - deposit.amount1,
+  };
+}
+
+/**
+ * Mirror of `remove-liquidity`: each side is paid out pro rata to the liquidity burned.
+ */
+export function quoteRemoveLiquidity(
+  reserves: PoolReserves,
+  liquidity: bigint,
+  ownedLiquidity?: bigint,
+  amount0Min = 0n,
+  amount1Min = 0n
+): { amount0: bigint; amount1: bigint } {
+  if (reserves.liquidity === 0n) {
+    throw contractError(AmmErrorCode.POOL_EMPTY);
+  }
+  const amount0 = div(liquidity * reserves.balance0, reserves.liquidity);
+  const amount1 = div(liquidity * reserves.balance1, reserves.liquidity);
+
+  if (ownedLiquidity !== undefined && ownedLiquidity < liquidity) {
+    throw contractError(AmmErrorCode.INSUFFICIENT_LIQUIDITY_OWNED);
+  }
+  if (amount0 <= 0n || amount1 <= 0n) {
+    throw contractError(AmmErrorCode.INSUFFICIENT_LIQUIDITY_BURNED);
+  }
+  if (amount0 < amount0Min) {
+    throw contractError(AmmErrorCode.INSUFFICIENT_0_AMOUNT);
+  }
+  if (amount1 < amount1Min) {
+    throw contractError(AmmErrorCode.INSUFFICIENT_1_AMOUNT);
+  }
+  return { amount0, amount1 };
+}
+
+/**
+ * Lowest acceptable amount for a quoted amount under a slippage tolerance in basis points,
+ * rounded down like the contract's own divisions.
+ */
+export function applySlippage(amount: bigint, slippageBps: number): bigint {
+  if (!Number.isInteger(slippageBps) || slippageBps < 0 || slippageBps > Number(FEES_DENOM)) {
+    throw new Error("Slippage tolerance must be between 0 and 10000 basis points");
+  }
+  return (amount * (FEES_DENOM - BigInt(slippageBps))) / FEES_DENOM;
+}
+
+/**
+ * Highest acceptable amount for a quoted input under a slippage tolerance in basis points,
+ * rounded up so the bound never falls below the quote.
+ */
+export function applySlippageMax(amount: bigint, slippageBps: number): bigint {
+  if (!Number.isInteger(slippageBps) || slippageBps < 0 || slippageBps > Number(FEES_DENOM)) {
+    throw new Error("Slippage tolerance must be between 0 and 10000 basis points");
+  }
+  const scaled = amount * (FEES_DENOM + BigInt(slippageBps));
+  return (scaled + FEES_DENOM - 1n) / FEES_DENOM;
+}
+
+export type PriceObservation = {
+  price0Cumulative: bigint;
+  price1Cumulative: bigint;
+  block: bigint; // block height the accumulators were read at
+};
+
+export type Twap = {
+  price0: bigint; // token-0 priced in token-1, scaled by PRICE_PRECISION
+  price1: bigint; // token-1 priced in token-0, scaled by PRICE_PRECISION
+};
+
+/**
+ * Time-weighted average prices between two `get-price-cumulatives` observations of the same pool,
+ * matching `get-twap` over the blocks between them.
+ */
+export function computeTwap(older: PriceObservation, newer: PriceObservation): Twap {
+  const blocks = newer.block - older.block;
+  if (blocks <= 0n) {
+    throw new Error("TWAP needs a newer observation from a later block than the older one");
+  }
+  return {
+    price0: sub(newer.price0Cumulative, older.price0Cumulative) / blocks,
+    price1: sub(newer.price1Cumulative, older.price1Cumulative) / blocks,
+  };
+}
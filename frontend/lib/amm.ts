@@ -1,22 +1,68 @@
-import { StacksTestnet } from "@stacks/network";
 import {
   boolCV,
   bufferCV,
   Cl,
   cvToHex,
-  callReadOnlyFunction,
-  cvToJSON,
+  ClarityType,
+  type ClarityValue,
+  hash160,
   hexToCV,
+  noneCV,
+  PostConditionMode,
   principalCV,
+  serializeCV,
+  someCV,
   uintCV,
+  validateStacksAddress,
 } from "@stacks/transactions";
-
-const AMM_CONTRACT_ADDRESS = "ST19JE8EPR84AJ8Z30B5ZB08WXTB6FC2SQHT4K9RM";
-const AMM_CONTRACT_NAME = "amm-v2";
-const AMM_CONTRACT_PRINCIPAL = `${AMM_CONTRACT_ADDRESS}.${AMM_CONTRACT_NAME}`;
-const network = new StacksTestnet();
-
-type ContractEvent = {
+import {
+  contractOwnerResult,
+  createPoolEvent,
+  decode,
+  eventAction,
+  feeTiersResult,
+  guardianResult,
+  pausedResult,
+  pauseStateResult,
+  PoolData,
+  poolDataResult,
+  positionLiquidityResult,
+  priceCumulativesResult,
+  protocolFeeShareResult,
+  protocolFeesResult,
+  sip010Uint,
+  twapResult,
+} from "./clarity-decoders";
+import {
+  AddLiquidityQuote,
+  AmmMathError,
+  applySlippage,
+  applySlippageMax,
+  FEES_DENOM,
+  MINIMUM_LIQUIDITY,
+  PoolReserves,
+  PriceObservation,
+  quoteAddLiquidity,
+  quoteRemoveLiquidity,
+  quoteSwap,
+  quoteZap,
+  Twap,
+  ZapQuote,
+} from "./amm-math";
+import { ammErrorFromCode, describeErrorCode } from "./amm-errors";
+import { networkConfig } from "./network";
+import { ftPostCondition } from "./post-conditions";
+import { callReadOnly } from "./read-only";
+import type { Route } from "./router";
+import type { Settings } from "./settings";
+import { getKnownTokens } from "./token-list";
+import { formatTokenAmount, getTokenMetadata } from "./tokens";
+
+const AMM_CONTRACT_ADDRESS = networkConfig.ammContractAddress;
+const AMM_CONTRACT_NAME = networkConfig.ammContractName;
+const AMM_CONTRACT_PRINCIPAL = networkConfig.ammContractPrincipal;
+
+export type ContractEvent = {
   event_index: number;
   event_type: string;
   tx_id: string;
@@ -30,29 +76,29 @@ type ContractEvent = {
   };
 };
 
+// User settings that shape the minimums and expiry of every trade
+export type TradeSettings = Pick<Settings, "slippageBps" | "deadlineMinutes">;
+
+// Liquidity and balances are u128s, kept as decimal strings so they stay exact and still cross from
+// server to client components and through the JSON index; `poolReserves` parses them for the math
 export type Pool = {
   id: string;
   "token-0": string;
   "token-1": string;
   fee: number;
-  liquidity: number;
-  "balance-0": number;
-  "balance-1": number;
+  liquidity: string;
+  "balance-0": string;
+  "balance-1": string;
 };
 
-// Helpers to deal with cvToJSON variations across versions
-function getJsonInnerValue(json: any): any {
-  if (json && typeof json === "object" && "value" in json) return json.value;
-  return json;
-}
-
-function isTupleJSON(json: any): boolean {
-  if (!json || typeof json !== "object") return false;
-  const t = json.type;
-  if (t === "tuple") return true;
-  if (typeof t === "string" && t.startsWith("(tuple")) return true;
-  // Some versions only expose nested .value without an explicit type tag we can rely on
-  return !!json.value && typeof json.value === "object" && !Array.isArray(json.value);
+// Call a read-only function on the AMM contract, throwing the catalog error for an `(err uN)` result
+async function callAmmReadOnly(functionName: string, functionArgs: ClarityValue[]): Promise<ClarityValue> {
+  const res = await callReadOnly(AMM_CONTRACT_PRINCIPAL, functionName, functionArgs);
+  if (res.type === ClarityType.ResponseErr && res.value.type === ClarityType.UInt) {
+    const code = BigInt(res.value.value);
+    throw ammErrorFromCode(code) ?? new Error(`${functionName}: ${describeErrorCode(code)}`);
+  }
+  return res;
 }
 
 // Helper: convert a hex string (with or without 0x prefix) to a buffer CV
@@ -70,44 +116,23 @@ function splitContractPrincipal(principal: string): { address: string; name: str
 
 // Read helpers for fungible tokens (SIP-010 style mock-token)
 export async function getTokenBalance(tokenContract: string, who: string): Promise<number> {
-  const { address, name } = splitContractPrincipal(tokenContract);
-  const res = await callReadOnlyFunction({
-    contractAddress: address,
-    contractName: name,
-    functionName: "get-balance",
-    functionArgs: [principalCV(who)],
-    senderAddress: AMM_CONTRACT_ADDRESS,
-    network,
-  });
-  const json = cvToJSON(res) as any;
-  const okVal = json?.type === "response-ok" || json?.type === "responseOk" ? json.value : json;
-  const uintVal = okVal?.type === "uint" ? okVal.value : getJsonInnerValue(okVal);
-  return Number(uintVal ?? 0);
+  const res = await callReadOnly(tokenContract, "get-balance", [principalCV(who)]);
+  return Number(decode(sip010Uint, res, `${tokenContract}::get-balance`));
 }
 
 
-// Get token decimals from SIP-010 mock-token
+// Token decimals from the cached SIP-010 metadata, so repeated quotes don't re-read them
 export async function getTokenDecimals(tokenContract: string): Promise<number> {
-  const { address, name } = splitContractPrincipal(tokenContract);
-  const res = await callReadOnlyFunction({
-    contractAddress: address,
-    contractName: name,
-    functionName: "get-decimals",
-    functionArgs: [],
-    senderAddress: AMM_CONTRACT_ADDRESS,
-    network,
-  });
-  const json = cvToJSON(res) as any;
-  const okVal = json?.type === "response-ok" || json?.type === "responseOk" ? json.value : json;
-  const val = getJsonInnerValue(okVal);
-  // Accept shapes: {type:'uint', value:'6'} | '6' | 'u6'
-  const decStr = typeof val === "object" && val?.type === "uint" ? val.value : val;
-  if (typeof decStr === "number") return decStr;
-  if (typeof decStr === "string") {
-    const m = decStr.match(/^\s*u?(\d+)\s*$/);
-    if (m) return Number(m[1]);
-  }
-  throw new Error(`Invalid decimals response for ${tokenContract}: ${JSON.stringify(json)}`);
+  return (await getTokenMetadata(tokenContract)).decimals;
+}
+
+// Pool reserves as exact bigints, the input format of the quote engine in amm-math.ts
+export function poolReserves(pool: Pool): PoolReserves {
+  return {
+    liquidity: BigInt(pool.liquidity),
+    balance0: BigInt(pool["balance-0"]),
+    balance1: BigInt(pool["balance-1"]),
+  };
 }
 
 // Convert a token amount (potentially decimal) to base units using decimals
@@ -123,13 +148,16 @@ export function toBaseUnits(amount: number, decimals: number): bigint {
 }
 
 // Mint/Faucet helpers (note: mint on current mock-token is owner-only)
-export async function mintToken(tokenContract: string, amount: number, recipient: string) {
+export async function mintToken(tokenContract: string, amount: number | bigint, recipient: string) {
   const { address, name } = splitContractPrincipal(tokenContract);
   return {
     contractAddress: address,
     contractName: name,
     functionName: "mint",
     functionArgs: [uintCV(amount), principalCV(recipient)],
+    // Minting creates tokens rather than transferring them, so nothing needs allowing
+    postConditionMode: PostConditionMode.Deny,
+    postConditions: [],
   };
 }
 
@@ -140,13 +168,10 @@ export async function mintToken(tokenContract: string, amount: number, recipient
 export async function getAllPools(): Promise<Pool[]> {
   let offset = 0;
   let done = false;
-  const pools: Pool[] = [];
-
-  console.log("Starting to fetch pools from contract events...");
+  const created: { token0: string; token1: string; fee: number; event: ReturnType<typeof createPoolEvent> }[] = [];
 
   while (!done) {
-    const url = `https://api.testnet.hiro.so/extended/v1/contract/${AMM_CONTRACT_PRINCIPAL}/events?limit=50&offset=${offset}`;
-    console.log(`Fetching events from: ${url}`);
+    const url = `${networkConfig.apiUrl}/extended/v1/contract/${AMM_CONTRACT_PRINCIPAL}/events?limit=50&offset=${offset}`;
 
     try {
       const res = await fetch(url, { cache: 'no-store' });
@@ -157,152 +182,28 @@ export async function getAllPools(): Promise<Pool[]> {
 
       const json = await res.json();
       const events = json.results as ContractEvent[];
-      console.log(`Fetched ${events.length} events`);
-
       if (events.length < 50) done = true;
 
-      const filteredEvents = events.filter(
-        (event) =>
-          event.event_type === "smart_contract_log" &&
-          event.contract_log.contract_id === AMM_CONTRACT_PRINCIPAL &&
-          event.contract_log.topic === "print"
-      );
-
-      console.log(`Found ${filteredEvents.length} print events`);
-
-      for (const event of filteredEvents) {
+      for (const event of events) {
+        if (
+          event.event_type !== "smart_contract_log" ||
+          event.contract_log.contract_id !== AMM_CONTRACT_PRINCIPAL ||
+          event.contract_log.topic !== "print"
+        ) {
+          continue;
+        }
         try {
           const clarityVal = hexToCV(event.contract_log.value.hex);
-          const data = cvToJSON(clarityVal) as any;
-
-          // Log once for debugging
-          console.log("Event JSON:", JSON.stringify(data, null, 2));
-
-          // Accept both explicit "tuple" and string-descriptive tuple types
-          if (!isTupleJSON(data)) continue;
-
-          const dataValue = getJsonInnerValue(data);
-          const actionField = dataValue?.action;
-          const actionValue = getJsonInnerValue(actionField);
-          const actionStr = typeof actionValue === "string" ? actionValue : undefined;
-          if (actionStr !== "create-pool") continue;
-
-          const innerDataField = dataValue?.data;
-          const innerData = getJsonInnerValue(innerDataField);
-          if (!innerData || typeof innerData !== "object") continue;
-
-          const token0 = getJsonInnerValue(innerData["token-0"]);
-          const token1 = getJsonInnerValue(innerData["token-1"]);
-          const fee = Number(getJsonInnerValue(innerData.fee));
-
-          console.log("Found create-pool event:", { token0, token1, fee });
+          const label = `print event ${event.tx_id}#${event.event_index}`;
+          // Transfer memos are printed as bare buffers alongside the tuple event
+          if (clarityVal.type !== ClarityType.Tuple || eventAction(clarityVal, label) !== "create-pool") continue;
 
+          const decoded = decode(createPoolEvent, clarityVal, label);
           // Canonicalize token order by principal hex to match contract expectations
-          let canon0 = token0;
-          let canon1 = token1;
-          try {
-            const t0Hex = cvToHex(principalCV(token0));
-            const t1Hex = cvToHex(principalCV(token1));
-            if (t0Hex > t1Hex) {
-              canon0 = token1;
-              canon1 = token0;
-            }
-          } catch (_) {
-            // fall back to event order if principal parsing fails
-          }
-
-          let poolBuilt: Pool | null = null;
-
-          try {
-            // Get pool ID
-            const poolIdResult = await callReadOnlyFunction({
-              contractAddress: AMM_CONTRACT_ADDRESS,
-              contractName: AMM_CONTRACT_NAME,
-              functionName: "get-pool-id",
-              functionArgs: [
-                Cl.tuple({
-                  "token-0": principalCV(canon0),
-                  "token-1": principalCV(canon1),
-                  fee: uintCV(fee),
-                }),
-              ],
-              senderAddress: AMM_CONTRACT_ADDRESS,
-              network,
-            });
-
-            let poolIdCV = cvToJSON(poolIdResult) as any;
-            console.log("Pool ID result:", poolIdCV);
-
-            // Handle different tag names across versions
-            if (poolIdCV?.type === "response-ok" || poolIdCV?.type === "responseOk") poolIdCV = poolIdCV.value;
-            if (poolIdCV?.type === "optional-some" || poolIdCV?.type === "optionalSome") poolIdCV = poolIdCV.value;
-
-            if (poolIdCV?.type === "buffer" || poolIdCV?.type === "buff") {
-              const poolId = poolIdCV.value;
-              console.log("Pool ID:", poolId);
-
-              // Fetch pool data
-              const poolDataResult = await callReadOnlyFunction({
-                contractAddress: AMM_CONTRACT_ADDRESS,
-                contractName: AMM_CONTRACT_NAME,
-                functionName: "get-pool-data",
-                functionArgs: [hexToBufferCV(poolId)],
-                senderAddress: AMM_CONTRACT_ADDRESS,
-                network,
-              });
-
-              const poolDataJSON = cvToJSON(poolDataResult) as any;
-              console.log("Pool data result:", poolDataJSON);
-
-              // Accept variations in response/optional tags and tuple detection
-              let okPart = poolDataJSON;
-              if (okPart?.type === "response-ok" || okPart?.type === "responseOk") okPart = okPart.value;
-              if (okPart?.type === "optional-some" || okPart?.type === "optionalSome") okPart = okPart.value;
-              if (isTupleJSON(okPart)) {
-                const poolData = getJsonInnerValue(okPart);
-                poolBuilt = {
-                  id: poolId,
-                  "token-0": canon0,
-                  "token-1": canon1,
-                  fee,
-                  liquidity: Number(getJsonInnerValue(poolData.liquidity)),
-                  "balance-0": Number(getJsonInnerValue(poolData["balance-0"])),
-                  "balance-1": Number(getJsonInnerValue(poolData["balance-1"])),
-                };
-              }
-            }
-          } catch (innerErr) {
-            console.warn("Read-only calls failed, will fallback to event data:", innerErr);
-          }
-
-          if (!poolBuilt) {
-            // Fallback: build pool from event payload to at least render it
-            const b0 = Number(getJsonInnerValue(innerData["balance-0"]) ?? 0);
-            const b1 = Number(getJsonInnerValue(innerData["balance-1"]) ?? 0);
-            const balances = canon0 === token0 ? [b0, b1] : [b1, b0];
-            poolBuilt = {
-              id: `${canon0}-${canon1}-${fee}`,
-              "token-0": canon0,
-              "token-1": canon1,
-              fee,
-              liquidity: Number(getJsonInnerValue(innerData.liquidity) ?? 0),
-              "balance-0": balances[0],
-              "balance-1": balances[1],
-            } as Pool;
-            // Attempt direct resolution for hex ID even if event-based read failed
-            try {
-              const resolved = await resolvePoolByPair(canon0, canon1, fee);
-              if (resolved) poolBuilt = resolved;
-            } catch (_) {
-              // ignore and keep fallback; will attempt again in merge step below
-            }
-          }
-
-          console.log("Adding pool:", poolBuilt);
-          pools.push(poolBuilt);
+          const [token0, token1] = canonicalizePair(decoded.data["token-0"], decoded.data["token-1"]);
+          created.push({ token0, token1, fee: Number(decoded.data.fee), event: decoded });
         } catch (error) {
           console.error("Error processing event:", error);
-          continue;
         }
       }
       // advance pagination window
@@ -313,72 +214,37 @@ export async function getAllPools(): Promise<Pool[]> {
     }
   }
 
-  console.table(pools);
-  console.log(`Successfully fetched ${pools.length} pools:`, pools);
-
   // If no pools found via events, try to fetch known pools directly
-  if (pools.length === 0) {
-    console.log("No pools found via events, trying direct approach...");
-    return await getAllPoolsDirect();
-  }
-
-  // Merge with direct approach to replace any fallback/event-only entries
-  try {
-    const directPools = await getAllPoolsDirect();
-    const directByPair = new Map<string, Pool>();
-    for (const dp of directPools) {
-      const key = `${dp["token-0"]}|${dp["token-1"]}|${dp.fee}`;
-      directByPair.set(key, dp);
-    }
-    const isHexId = (id: string) => {
-      const s = (id || "").startsWith("0x") ? id.slice(2) : id;
-      return /^[0-9a-fA-F]+$/.test(s) && s.length > 0;
-    };
-    for (let i = 0; i < pools.length; i++) {
-      const p = pools[i];
-      const key = `${p["token-0"]}|${p["token-1"]}|${p.fee}`;
-      const dp = directByPair.get(key);
-      const looksFallback = !isHexId(p.id) || (p["balance-0"] === 0 && p["balance-1"] === 0);
-      if (dp && looksFallback) {
-        pools[i] = dp;
-      }
-    }
-  } catch (mergeErr) {
-    console.warn("Failed to merge with direct pools:", mergeErr);
-  }
-
-  // Deduplicate by token pair + fee, prefer entries with hex buffer IDs
-  const byPair = new Map<string, Pool>();
-  const isHexId = (id: string) => {
-    const s = (id || "").startsWith("0x") ? id.slice(2) : id;
-    return /^[0-9a-fA-F]+$/.test(s) && s.length > 0;
-  };
-  for (const p of pools) {
-    const key = `${p["token-0"]}|${p["token-1"]}|${p.fee}`;
-    const existing = byPair.get(key);
-    if (!existing) {
-      byPair.set(key, p);
-      continue;
-    }
-    if (isHexId(p.id) && !isHexId(existing.id)) {
-      byPair.set(key, p);
-    }
-  }
-  const deduped = Array.from(byPair.values());
+  if (created.length === 0) return getAllPoolsDirect();
 
-  // Final fix-up pass: resolve any remaining fallback IDs to hex via direct read
-  for (let i = 0; i < deduped.length; i++) {
-    const p = deduped[i];
-    if (!isHexId(p.id)) {
+  // Pool IDs are computed locally, so each pool costs a single read, and the read client runs them concurrently
+  const pools = await Promise.all(
+    created.map(async ({ token0, token1, fee, event }) => {
+      const id = computePoolId(token0, token1, fee);
       try {
-        const resolved = await resolvePoolByPair(p["token-0"], p["token-1"], p.fee);
-        if (resolved) deduped[i] = resolved;
-      } catch (_) {
-        // keep fallback if resolution fails
+        const pool = await getPoolById(id);
+        if (pool) return pool;
+      } catch (err) {
+        console.warn("Read-only calls failed, will fallback to event data:", err);
       }
-    }
-  }
-  return deduped;
+      // Fallback: build pool from event payload to at least render it
+      const b0 = event.data["balance-0"].toString();
+      const b1 = event.data["balance-1"].toString();
+      const balances = token0 === event.data["token-0"] ? [b0, b1] : [b1, b0];
+      return {
+        id,
+        "token-0": token0,
+        "token-1": token1,
+        fee,
+        liquidity: event.data.liquidity.toString(),
+        "balance-0": balances[0],
+        "balance-1": balances[1],
+      };
+    })
+  );
+
+  // A pool is only created once, but the feed can repeat events across pages while new ones arrive
+  return Array.from(new Map(pools.map((pool) => [pool.id, pool])).values());
 }
 
 /**
@@ -386,115 +252,60 @@ export async function getAllPools(): Promise<Pool[]> {
  * This is a fallback when the event-based approach doesn't work
  */
 async function getAllPoolsDirect(): Promise<Pool[]> {
-  const pools: Pool[] = [];
+  // Tokens from the configured token list and the user's imports
+  const knownTokens = (await getKnownTokens()).map((token) => token.contract);
 
-  // Common token pairs to check (you can expand this list)
-  const knownTokens = [
-    "ST19JE8EPR84AJ8Z30B5ZB08WXTB6FC2SQHT4K9RM.mock-token",
-    "ST19JE8EPR84AJ8Z30B5ZB08WXTB6FC2SQHT4K9RM.mock-token-2",
-    "ST19JE8EPR84AJ8Z30B5ZB08WXTB6FC2SQHT4K9RM.mock-token-3",
-    "ST19JE8EPR84AJ8Z30B5ZB08WXTB6FC2SQHT4K9RM.mock-token-4",
-    "ST19JE8EPR84AJ8Z30B5ZB08WXTB6FC2SQHT4K9RM.mock-token-5",
-    "ST19JE8EPR84AJ8Z30B5ZB08WXTB6FC2SQHT4K9RM.mock-token-6",
-  ];
-
-  const fees = [500]; // Trimmed to common 0.5% fee for minimal fallback
+  // Tiers that were later disabled can still have pools, so probe every listed tier
+  const fees = (await getFeeTiers()).map((tier) => tier.fee);
 
+  const candidates: string[] = [];
   for (let i = 0; i < knownTokens.length; i++) {
     for (let j = i + 1; j < knownTokens.length; j++) {
-      for (const fee of fees) {
-        // Try both token orders to be safe
-        const orders: Array<[string, string]> = [
-          [knownTokens[i], knownTokens[j]],
-          [knownTokens[j], knownTokens[i]],
-        ];
-        for (const [token0, token1] of orders) {
-          try {
-            // First check if pool exists
-            const poolExistsResult = await callReadOnlyFunction({
-              contractAddress: AMM_CONTRACT_ADDRESS,
-              contractName: AMM_CONTRACT_NAME,
-              functionName: "pool-exists",
-              functionArgs: [
-                principalCV(token0),
-                principalCV(token1),
-                uintCV(fee),
-              ],
-              senderAddress: AMM_CONTRACT_ADDRESS,
-              network,
-            });
-
-            let poolExistsJSON = cvToJSON(poolExistsResult) as any;
-            if (poolExistsJSON?.type === "response-ok" || poolExistsJSON?.type === "responseOk") {
-              poolExistsJSON = poolExistsJSON.value;
-            }
-            const existsVal = getJsonInnerValue(poolExistsJSON);
-            const exists = typeof existsVal === "boolean" ? existsVal : poolExistsJSON?.value === true;
-            if (!exists) continue; // Pool doesn't exist
-
-            // Get pool ID
-            const poolIdResult = await callReadOnlyFunction({
-              contractAddress: AMM_CONTRACT_ADDRESS,
-              contractName: AMM_CONTRACT_NAME,
-              functionName: "get-pool-id",
-              functionArgs: [
-                Cl.tuple({
-                  "token-0": principalCV(token0),
-                  "token-1": principalCV(token1),
-                  fee: uintCV(fee),
-                }),
-              ],
-              senderAddress: AMM_CONTRACT_ADDRESS,
-              network,
-            });
-
-            let poolIdCV = cvToJSON(poolIdResult) as any;
-            if (poolIdCV?.type === "response-ok" || poolIdCV?.type === "responseOk") poolIdCV = poolIdCV.value;
-            if (poolIdCV?.type === "optional-some" || poolIdCV?.type === "optionalSome") poolIdCV = poolIdCV.value;
-            if (!(poolIdCV?.type === "buffer" || poolIdCV?.type === "buff")) continue;
-            const poolId = poolIdCV.value;
-
-            // Fetch pool data
-            const poolDataResult = await callReadOnlyFunction({
-              contractAddress: AMM_CONTRACT_ADDRESS,
-              contractName: AMM_CONTRACT_NAME,
-              functionName: "get-pool-data",
-              functionArgs: [hexToBufferCV(poolId)],
-              senderAddress: AMM_CONTRACT_ADDRESS,
-              network,
-            });
-
-            let poolDataJSON = cvToJSON(poolDataResult) as any;
-            if (poolDataJSON?.type === "response-ok" || poolDataJSON?.type === "responseOk") poolDataJSON = poolDataJSON.value;
-            if (poolDataJSON?.type === "optional-some" || poolDataJSON?.type === "optionalSome") poolDataJSON = poolDataJSON.value;
-            if (!isTupleJSON(poolDataJSON)) continue;
-            const poolData = getJsonInnerValue(poolDataJSON);
-
-            pools.push({
-              id: poolId,
-              "token-0": token0,
-              "token-1": token1,
-              fee,
-              liquidity: Number(getJsonInnerValue(poolData.liquidity)),
-              "balance-0": Number(getJsonInnerValue(poolData["balance-0"])),
-              "balance-1": Number(getJsonInnerValue(poolData["balance-1"])),
-            });
-
-            console.log("Found pool via direct approach:", { token0, token1, fee });
-          } catch (error) {
-            // Pool doesn't exist or error occurred, try next order/fee
-            continue;
-          }
-        }
-      }
+      const [token0, token1] = canonicalizePair(knownTokens[i], knownTokens[j]);
+      for (const fee of fees) candidates.push(computePoolId(token0, token1, fee));
     }
   }
 
-  console.log(`Found ${pools.length} pools via direct approach`);
-  return pools;
+  const pools = await Promise.all(
+    candidates.map((id) =>
+      getPoolById(id).catch((error) => {
+        console.warn("Direct pool lookup failed:", id, error);
+        return null;
+      })
+    )
+  );
+  return pools.filter((pool): pool is Pool => !!pool);
 }
 
 
+// Used when the API can't tell how fast blocks are being produced
+const FALLBACK_BLOCK_TIME_SECONDS = 10;
+
+/**
+ * Block height `minutes` from now, or null for no deadline (0 minutes).
+ * The block rate is estimated from the timestamps of recent blocks.
+ */
+export async function getDeadlineHeight(minutes: number): Promise<bigint | null> {
+  if (minutes <= 0) return null;
+  const res = await fetch(`${networkConfig.apiUrl}/extended/v2/blocks?limit=20`, { cache: "no-store" });
+  if (!res.ok) throw new Error(`Failed to fetch recent blocks: ${res.status} ${res.statusText}`);
+  const { results } = (await res.json()) as { results: { height: number; block_time: number }[] };
+  if (results.length === 0) throw new Error("Failed to fetch recent blocks: no blocks returned");
+
+  const newest = results[0];
+  const oldest = results[results.length - 1];
+  const blockTime =
+    results.length > 1 && newest.block_time > oldest.block_time
+      ? (newest.block_time - oldest.block_time) / (newest.height - oldest.height)
+      : FALLBACK_BLOCK_TIME_SECONDS;
+  return BigInt(newest.height + Math.ceil((minutes * 60) / blockTime));
+}
+
+async function deadlineArg(settings: TradeSettings) {
+  const height = await getDeadlineHeight(settings.deadlineMinutes);
+  return height === null ? noneCV() : someCV(uintCV(height));
+}
+
 /**
  * Create pool transaction options
  */
@@ -510,16 +321,23 @@ export async function createPool(token0: string, token1: string, fee: number) {
     contractName: AMM_CONTRACT_NAME,
     functionName: "create-pool",
     functionArgs: [principalCV(token0), principalCV(token1), uintCV(fee)],
+    // Creating a pool moves no tokens
+    postConditionMode: PostConditionMode.Deny,
+    postConditions: [],
   };
 }
 
 /**
- * Add liquidity to pool
+ * Add liquidity to pool. The deposit reverts if either amount taken would fall more than the
+ * slippage tolerance below the current quote or if it lands after the deadline, and the sender
+ * never sends more than the amounts entered.
  */
 export async function addLiquidity(
   pool: Pool,
   amount0: number,
-  amount1: number
+  amount1: number,
+  settings: TradeSettings,
+  sender: string
 ) {
   if (amount0 === 0 || amount1 === 0)
     throw new Error("Cannot add liquidity with 0 amount");
@@ -530,26 +348,31 @@ export async function addLiquidity(
   const amount0Base = toBaseUnits(amount0, dec0);
   const amount1Base = toBaseUnits(amount1, dec1);
 
-  // Preflight for non-initial pools: respect ratio using base units
-  if (pool.liquidity > 0) {
-    const poolRatio = pool["balance-0"] / pool["balance-1"];
-    const idealAmount1Base = Math.floor(Number(amount0Base) / poolRatio);
-    if (Number(amount1Base) < idealAmount1Base) {
-      const t1 = pool["token-1"].split(".")[1];
-      const t0 = pool["token-0"].split(".")[1];
-      throw new Error(
-        `You need at least ${idealAmount1Base} base units of ${t1} with ${amount0Base} base units of ${t0}`
-      );
-    }
-  } else {
-    // Initial liquidity must satisfy sqrt(x*y) > MINIMUM_LIQUIDITY (u1000)
-    const sqrtProduct = Math.floor(Math.sqrt(Number(amount0Base) * Number(amount1Base)));
-    const MINIMUM_LIQUIDITY = 1000; // mirrors contract constant
-    if (sqrtProduct <= MINIMUM_LIQUIDITY) {
+  // Preflight with the contract's exact math so the deposit doesn't abort on-chain
+  const reserves = poolReserves(pool);
+  let quote: AddLiquidityQuote;
+  try {
+    quote = quoteAddLiquidity(reserves, amount0Base, amount1Base);
+  } catch (err) {
+    if (!(err instanceof AmmMathError)) throw err;
+    if (reserves.liquidity === 0n) {
       throw new Error(
         `Initial deposit too small. Increase amounts so sqrt(x*y) > ${MINIMUM_LIQUIDITY} (in base units).`
       );
     }
+    throw new Error(`Deposit too small for this pool: ${err.message}`);
+  }
+  // For existing pools, require enough token-1 to match all of the requested token-0 at the pool ratio
+  if (reserves.liquidity > 0n && quote.amount0 < amount0Base) {
+    const idealAmount1Base = (amount0Base * reserves.balance1) / reserves.balance0;
+    const [meta0, meta1] = await Promise.all([getTokenMetadata(pool["token-0"]), getTokenMetadata(pool["token-1"])]);
+    throw new Error(
+      `You need at least ${formatTokenAmount(idealAmount1Base, pool["token-1"], meta1)} with ${formatTokenAmount(
+        amount0Base,
+        pool["token-0"],
+        meta0
+      )}`
+    );
   }
 
   return {
@@ -562,16 +385,90 @@ export async function addLiquidity(
       uintCV(pool.fee),
       uintCV(amount0Base),
       uintCV(amount1Base),
-      uintCV(0),
-      uintCV(0),
+      uintCV(applySlippage(quote.amount0, settings.slippageBps)),
+      uintCV(applySlippage(quote.amount1, settings.slippageBps)),
+      await deadlineArg(settings),
+    ],
+    postConditionMode: PostConditionMode.Deny,
+    postConditions: await Promise.all([
+      ftPostCondition(sender, "lte", amount0Base, pool["token-0"]),
+      ftPostCondition(sender, "lte", amount1Base, pool["token-1"]),
+    ]),
+  };
+}
+
+/**
+ * Quote a single-sided deposit of amount (in whole input tokens) with `zap-in`, for previews and preflight.
+ */
+export async function quoteZapIn(pool: Pool, amount: number, zeroForOne: boolean): Promise<ZapQuote> {
+  const reserves = poolReserves(pool);
+  if (reserves.liquidity === 0n) {
+    throw new Error("This pool has no liquidity yet. Make the first deposit with both tokens.");
+  }
+  const inputToken = zeroForOne ? pool["token-0"] : pool["token-1"];
+  const amountBase = toBaseUnits(amount, await getTokenDecimals(inputToken));
+  // The protocol's cut of the swap leg's fee leaves the pool, so it shrinks the reserves the deposit lands in
+  const protocolFeeShare = BigInt(await getProtocolFeeShare());
+  try {
+    return quoteZap(reserves, BigInt(pool.fee), amountBase, zeroForOne, protocolFeeShare);
+  } catch (err) {
+    if (!(err instanceof AmmMathError)) throw err;
+    throw new Error(`Deposit too small for this pool: ${err.message}`);
+  }
+}
+
+/**
+ * Add liquidity to pool from one token with `zap-in`, which swaps part of it for the other token and
+ * deposits both. Reverts if the liquidity minted would fall more than the slippage tolerance below the
+ * current quote or if it lands after the deadline; the sender never sends more than the amount entered.
+ */
+export async function zapIn(
+  pool: Pool,
+  amount: number,
+  zeroForOne: boolean,
+  settings: TradeSettings,
+  sender: string
+) {
+  if (!Number.isFinite(amount) || amount <= 0) {
+    throw new Error("Deposit amount must be a positive number");
+  }
+  const quote = await quoteZapIn(pool, amount, zeroForOne);
+  const inputToken = zeroForOne ? pool["token-0"] : pool["token-1"];
+  const otherToken = zeroForOne ? pool["token-1"] : pool["token-0"];
+  const amountBase = toBaseUnits(amount, await getTokenDecimals(inputToken));
+
+  return {
+    contractAddress: AMM_CONTRACT_ADDRESS,
+    contractName: AMM_CONTRACT_NAME,
+    functionName: "zap-in",
+    functionArgs: [
+      principalCV(pool["token-0"]),
+      principalCV(pool["token-1"]),
+      uintCV(pool.fee),
+      uintCV(amountBase),
+      boolCV(zeroForOne),
+      uintCV(applySlippage(quote.liquidityMinted, settings.slippageBps)),
+      await deadlineArg(settings),
     ],
+    postConditionMode: PostConditionMode.Deny,
+    // The other token passes from the pool to the sender and straight back in with the deposit.
+    // Its amount depends on execution-time reserves, so it is allowed in any amount.
+    postConditions: await Promise.all([
+      ftPostCondition(sender, "lte", amountBase, inputToken),
+      ftPostCondition(AMM_CONTRACT_PRINCIPAL, "gte", 0n, otherToken),
+      ftPostCondition(sender, "gte", 0n, otherToken),
+    ]),
   };
 }
 
 /**
- * Remove liquidity from pool
+ * Remove liquidity from pool. The withdrawal reverts if either payout would fall more than the
+ * slippage tolerance below the current quote or if it lands after the deadline.
  */
-export async function removeLiquidity(pool: Pool, liquidity: number) {
+export async function removeLiquidity(pool: Pool, liquidity: bigint, settings: TradeSettings) {
+  const quote = quoteRemoveLiquidity(poolReserves(pool), liquidity);
+  const amount0Min = applySlippage(quote.amount0, settings.slippageBps);
+  const amount1Min = applySlippage(quote.amount1, settings.slippageBps);
   return {
     contractAddress: AMM_CONTRACT_ADDRESS,
     contractName: AMM_CONTRACT_NAME,
@@ -581,14 +478,29 @@ export async function removeLiquidity(pool: Pool, liquidity: number) {
       principalCV(pool["token-1"]),
       uintCV(pool.fee),
       uintCV(liquidity),
+      uintCV(amount0Min),
+      uintCV(amount1Min),
+      await deadlineArg(settings),
     ],
+    postConditionMode: PostConditionMode.Deny,
+    postConditions: await Promise.all([
+      ftPostCondition(AMM_CONTRACT_PRINCIPAL, "gte", amount0Min, pool["token-0"]),
+      ftPostCondition(AMM_CONTRACT_PRINCIPAL, "gte", amount1Min, pool["token-1"]),
+    ]),
   };
 }
 
 /**
- * Swap tokens in a pool
+ * Swap tokens in a pool. The swap reverts if the output would fall more than the slippage
+ * tolerance below the current quote or if it lands after the deadline.
  */
-export async function swap(pool: Pool, amount: number, zeroForOne: boolean) {
+export async function swap(
+  pool: Pool,
+  amount: number,
+  zeroForOne: boolean,
+  settings: TradeSettings,
+  sender: string
+) {
   if (!Number.isFinite(amount) || amount <= 0) {
     throw new Error("Swap amount must be a positive number");
   }
@@ -597,6 +509,9 @@ export async function swap(pool: Pool, amount: number, zeroForOne: boolean) {
   const fromToken = zeroForOne ? pool["token-0"] : pool["token-1"];
   const dec = await getTokenDecimals(fromToken);
   const amountBase = toBaseUnits(amount, dec);
+  const quote = quoteSwap(poolReserves(pool), BigInt(pool.fee), amountBase, zeroForOne);
+  const minOutput = applySlippage(quote.outputAmount, settings.slippageBps);
+  const toToken = zeroForOne ? pool["token-1"] : pool["token-0"];
 
   return {
     contractAddress: AMM_CONTRACT_ADDRESS,
@@ -608,26 +523,329 @@ export async function swap(pool: Pool, amount: number, zeroForOne: boolean) {
       uintCV(pool.fee),
       uintCV(amountBase),
       boolCV(zeroForOne),
+      uintCV(minOutput),
+      await deadlineArg(settings),
+    ],
+    postConditionMode: PostConditionMode.Deny,
+    postConditions: await Promise.all([
+      ftPostCondition(sender, "eq", amountBase, fromToken),
+      ftPostCondition(AMM_CONTRACT_PRINCIPAL, "gte", minOutput, toToken),
+    ]),
+  };
+}
+
+/**
+ * Swap along a route found by the router: a single-pool `swap`, or `swap-2-hop` / `swap-3-hop`
+ * which execute every hop atomically. All of them revert if the final output falls more than the
+ * slippage tolerance below the route's quote, or if they land after the deadline.
+ * Amounts are in base units.
+ */
+export async function swapRoute(route: Route, settings: TradeSettings, sender: string) {
+  if (route.amountIn <= 0n) throw new Error("Swap amount must be a positive number");
+  const { hops } = route;
+  const minOutput = applySlippage(route.amountOut, settings.slippageBps);
+  const deadline = await deadlineArg(settings);
+
+  // Intermediate tokens pass from the pool to the sender and straight back into the next pool.
+  // Their amounts depend on execution-time reserves, so they are allowed in any amount.
+  const postConditions = await Promise.all([
+    ftPostCondition(sender, "eq", route.amountIn, route.tokenIn),
+    ftPostCondition(AMM_CONTRACT_PRINCIPAL, "gte", minOutput, route.tokenOut),
+    ...hops.slice(0, -1).flatMap((hop) => [
+      ftPostCondition(AMM_CONTRACT_PRINCIPAL, "gte", 0n, hop.tokenOut),
+      ftPostCondition(sender, "gte", 0n, hop.tokenOut),
+    ]),
+  ]);
+
+  if (hops.length === 1) {
+    const [hop] = hops;
+    return {
+      contractAddress: AMM_CONTRACT_ADDRESS,
+      contractName: AMM_CONTRACT_NAME,
+      functionName: "swap",
+      functionArgs: [
+        principalCV(hop.pool["token-0"]),
+        principalCV(hop.pool["token-1"]),
+        uintCV(hop.pool.fee),
+        uintCV(route.amountIn),
+        boolCV(hop.zeroForOne),
+        uintCV(minOutput),
+        deadline,
+      ],
+      postConditionMode: PostConditionMode.Deny,
+      postConditions,
+    };
+  }
+
+  if (hops.length !== 2 && hops.length !== 3) {
+    throw new Error(`Routes of ${hops.length} hops are not supported`);
+  }
+
+  // Path tokens in order (token-a, token-b, ...), then one fee per hop
+  const tokens = [route.tokenIn, ...hops.map((hop) => hop.tokenOut)];
+  return {
+    contractAddress: AMM_CONTRACT_ADDRESS,
+    contractName: AMM_CONTRACT_NAME,
+    functionName: `swap-${hops.length}-hop`,
+    functionArgs: [
+      ...tokens.map((token) => principalCV(token)),
+      ...hops.map((hop) => uintCV(hop.pool.fee)),
+      uintCV(route.amountIn),
+      uintCV(minOutput),
+      deadline,
     ],
+    postConditionMode: PostConditionMode.Deny,
+    postConditions,
+  };
+}
+
+/**
+ * Swap for exactly amountOut of the route's output token (`swap-exact-output`, single-pool routes only).
+ * Reverts if the input needed rises more than the slippage tolerance above the route's quote,
+ * or if it lands after the deadline. Amounts are in base units.
+ */
+export async function swapExactOutput(
+  route: Route,
+  amountOut: bigint,
+  settings: TradeSettings,
+  sender: string
+) {
+  if (amountOut <= 0n) throw new Error("Swap output must be a positive number");
+  if (route.hops.length !== 1) throw new Error("Exact-output swaps must go through a single pool");
+  const [hop] = route.hops;
+  const maxInput = applySlippageMax(route.amountIn, settings.slippageBps);
+
+  return {
+    contractAddress: AMM_CONTRACT_ADDRESS,
+    contractName: AMM_CONTRACT_NAME,
+    functionName: "swap-exact-output",
+    functionArgs: [
+      principalCV(hop.pool["token-0"]),
+      principalCV(hop.pool["token-1"]),
+      uintCV(hop.pool.fee),
+      uintCV(amountOut),
+      boolCV(hop.zeroForOne),
+      uintCV(maxInput),
+      await deadlineArg(settings),
+    ],
+    postConditionMode: PostConditionMode.Deny,
+    postConditions: await Promise.all([
+      ftPostCondition(sender, "lte", maxInput, route.tokenIn),
+      ftPostCondition(AMM_CONTRACT_PRINCIPAL, "gte", amountOut, route.tokenOut),
+    ]),
+  };
+}
+
+/**
+ * Move liquidity from the sender's position in a pool to another address, which can then
+ * remove it or transfer it again. No tokens change hands, so deny mode needs no post-conditions.
+ */
+export async function transferPosition(pool: Pool, liquidity: bigint, sender: string, recipient: string) {
+  if (liquidity <= 0n) {
+    throw new Error("Transfer amount must be greater than zero");
+  }
+  if (!validateStacksAddress(recipient.split(".")[0])) {
+    throw new Error("Recipient must be a valid Stacks address");
+  }
+  return {
+    contractAddress: AMM_CONTRACT_ADDRESS,
+    contractName: AMM_CONTRACT_NAME,
+    functionName: "transfer-position",
+    functionArgs: [
+      // Serialized, because @stacks/connect bundles its own BufferCV type that ours doesn't satisfy
+      cvToHex(hexToBufferCV(pool.id)),
+      uintCV(liquidity),
+      principalCV(sender),
+      principalCV(recipient),
+      noneCV(),
+    ],
+    postConditionMode: PostConditionMode.Deny,
+    postConditions: [],
   };
 }
 
 /**
  * Get user’s liquidity in a specific pool
+ * (positions are keyed by owner, so this includes liquidity transferred in from other addresses)
+ */
+export async function getUserLiquidity(pool: Pool, user: string): Promise<bigint> {
+  const userLiquidityResult = await callAmmReadOnly("get-position-liquidity", [
+    hexToBufferCV(pool.id),
+    principalCV(user),
+  ]);
+
+  return decode(positionLiquidityResult, userLiquidityResult, "get-position-liquidity");
+}
+
+/**
+ * Current price accumulators of a pool. Pass two observations to `computeTwap` for the
+ * average price between them.
+ */
+export async function getPriceObservation(pool: Pool): Promise<PriceObservation> {
+  const res = await callAmmReadOnly("get-price-cumulatives", [hexToBufferCV(pool.id)]);
+  const observation = decode(priceCumulativesResult, res, "get-price-cumulatives");
+  return {
+    price0Cumulative: observation["price-0-cumulative"],
+    price1Cumulative: observation["price-1-cumulative"],
+    block: observation.block,
+  };
+}
+
+/**
+ * Time-weighted average prices over the last `window` blocks, scaled by PRICE_PRECISION.
+ */
+export async function getTwap(pool: Pool, window: number): Promise<Twap> {
+  const res = await callAmmReadOnly("get-twap", [hexToBufferCV(pool.id), uintCV(window)]);
+  const twap = decode(twapResult, res, "get-twap");
+  return { price0: twap["price-0"], price1: twap["price-1"] };
+}
+
+export type FeeTier = {
+  fee: number; // out of FEES_DENOM
+  enabled: boolean; // whether new pools can use it
+};
+
+/**
+ * Every fee tier the contract has listed, including disabled ones that existing pools may still use.
+ */
+export async function getFeeTiers(): Promise<FeeTier[]> {
+  const res = await callAmmReadOnly("get-fee-tiers", []);
+  return decode(feeTiersResult, res, "get-fee-tiers").map((tier) => ({
+    fee: Number(tier.fee),
+    enabled: tier.enabled,
+  }));
+}
+
+/**
+ * Add a fee tier or enable/disable an existing one for new pools (owner only). No tokens move.
+ */
+export async function setFeeTier(fee: number, enabled: boolean) {
+  if (!Number.isInteger(fee) || fee < 0 || fee >= Number(FEES_DENOM)) {
+    throw new Error(`Fee tier must be a whole number below ${FEES_DENOM}`);
+  }
+  return {
+    contractAddress: AMM_CONTRACT_ADDRESS,
+    contractName: AMM_CONTRACT_NAME,
+    functionName: "set-fee-tier",
+    functionArgs: [uintCV(fee), boolCV(enabled)],
+    postConditionMode: PostConditionMode.Deny,
+    postConditions: [],
+  };
+}
+
+export type ProtocolFees = { amount0: bigint; amount1: bigint };
+
+export async function getContractOwner(): Promise<string> {
+  const res = await callAmmReadOnly("get-contract-owner", []);
+  return decode(contractOwnerResult, res, "get-contract-owner");
+}
+
+// Share of every swap fee, out of FEES_DENOM, that accrues to the protocol
+export async function getProtocolFeeShare(): Promise<number> {
+  const res = await callAmmReadOnly("get-protocol-fee-share", []);
+  return Number(decode(protocolFeeShareResult, res, "get-protocol-fee-share"));
+}
+
+export async function getProtocolFees(pool: Pool): Promise<ProtocolFees> {
+  const res = await callAmmReadOnly("get-protocol-fees", [hexToBufferCV(pool.id)]);
+  const fees = decode(protocolFeesResult, res, "get-protocol-fees");
+  return { amount0: fees["amount-0"], amount1: fees["amount-1"] };
+}
+
+/**
+ * Set the protocol's share of swap fees (owner only). No tokens move.
  */
-export async function getUserLiquidity(pool: Pool, user: string) {
-  const userLiquidityResult = await callReadOnlyFunction({
+export async function setProtocolFeeShare(share: number) {
+  if (!Number.isInteger(share) || share < 0 || share > Number(FEES_DENOM)) {
+    throw new Error(`Protocol fee share must be a whole number between 0 and ${FEES_DENOM}`);
+  }
+  return {
     contractAddress: AMM_CONTRACT_ADDRESS,
     contractName: AMM_CONTRACT_NAME,
-    functionName: "get-position-liquidity",
-    functionArgs: [hexToBufferCV(pool.id), principalCV(user)],
-    senderAddress: AMM_CONTRACT_ADDRESS,
-    network,
-  });
+    functionName: "set-protocol-fee-share",
+    functionArgs: [uintCV(share)],
+    postConditionMode: PostConditionMode.Deny,
+    postConditions: [],
+  };
+}
+
+// Swaps and deposits on a pool fail while either flag is set; withdrawals never pause
+export type PauseState = { global: boolean; pool: boolean };
 
-  const json = cvToJSON(userLiquidityResult) as any;
-  if (json.type !== "response-ok" || json.value.type !== "uint") return 0;
-  return parseInt(json.value.value.toString());
+export function isPaused(state: PauseState): boolean {
+  return state.global || state.pool;
+}
+
+export async function getGuardian(): Promise<string> {
+  const res = await callAmmReadOnly("get-guardian", []);
+  return decode(guardianResult, res, "get-guardian");
+}
+
+// Whether swaps and deposits are paused on every pool
+export async function getPaused(): Promise<boolean> {
+  const res = await callAmmReadOnly("is-paused", []);
+  return decode(pausedResult, res, "is-paused");
+}
+
+export async function getPauseState(poolId: string): Promise<PauseState> {
+  const res = await callAmmReadOnly("get-pause-state", [hexToBufferCV(poolId)]);
+  return decode(pauseStateResult, res, "get-pause-state");
+}
+
+/**
+ * Pause or resume swaps and deposits on every pool (guardian only). No tokens move.
+ */
+export async function setPaused(paused: boolean) {
+  return {
+    contractAddress: AMM_CONTRACT_ADDRESS,
+    contractName: AMM_CONTRACT_NAME,
+    functionName: "set-paused",
+    functionArgs: [boolCV(paused)],
+    postConditionMode: PostConditionMode.Deny,
+    postConditions: [],
+  };
+}
+
+/**
+ * Pause or resume swaps and deposits on one pool (guardian only). No tokens move.
+ */
+export async function setPoolPaused(pool: Pool, paused: boolean) {
+  return {
+    contractAddress: AMM_CONTRACT_ADDRESS,
+    contractName: AMM_CONTRACT_NAME,
+    functionName: "set-pool-paused",
+    // Serialized pool id, as in transferPosition
+    functionArgs: [cvToHex(hexToBufferCV(pool.id)), boolCV(paused)],
+    postConditionMode: PostConditionMode.Deny,
+    postConditions: [],
+  };
+}
+
+/**
+ * Send a pool's accrued protocol fees to recipient (owner only). Fees can keep accruing until the
+ * transaction is mined, so the post-conditions only bound the payout from below.
+ */
+export async function collectProtocolFees(pool: Pool, recipient: string) {
+  if (!validateStacksAddress(recipient.split(".")[0])) {
+    throw new Error("Recipient must be a valid Stacks address");
+  }
+  const accrued = await getProtocolFees(pool);
+  return {
+    contractAddress: AMM_CONTRACT_ADDRESS,
+    contractName: AMM_CONTRACT_NAME,
+    functionName: "collect-protocol-fees",
+    functionArgs: [
+      principalCV(pool["token-0"]),
+      principalCV(pool["token-1"]),
+      uintCV(pool.fee),
+      principalCV(recipient),
+    ],
+    postConditionMode: PostConditionMode.Deny,
+    postConditions: await Promise.all([
+      ftPostCondition(AMM_CONTRACT_PRINCIPAL, "gte", accrued.amount0, pool["token-0"]),
+      ftPostCondition(AMM_CONTRACT_PRINCIPAL, "gte", accrued.amount1, pool["token-1"]),
+    ]),
+  };
 }
 
 // Export all
@@ -636,71 +854,54 @@ export default {
   createPool,
   addLiquidity,
   removeLiquidity,
+  transferPosition,
   swap,
   getUserLiquidity,
 };
 
-// Resolve a pool by token pair and fee using read-only contract calls
-async function resolvePoolByPair(token0In: string, token1In: string, fee: number): Promise<Pool | null> {
-  try {
-    // Canonicalize order by principal hex to match contract expectations
-    let token0 = token0In;
-    let token1 = token1In;
-    const t0Hex = cvToHex(principalCV(token0));
-    const t1Hex = cvToHex(principalCV(token1));
-    if (t0Hex > t1Hex) {
-      token0 = token1In;
-      token1 = token0In;
-    }
+// Order two token principals the way the contract expects (by consensus-serialized principal)
+export function canonicalizePair(tokenA: string, tokenB: string): [string, string] {
+  return cvToHex(principalCV(tokenA)) > cvToHex(principalCV(tokenB))
+    ? [tokenB, tokenA]
+    : [tokenA, tokenB];
+}
 
-    // Get pool ID
-    const poolIdResult = await callReadOnlyFunction({
-      contractAddress: AMM_CONTRACT_ADDRESS,
-      contractName: AMM_CONTRACT_NAME,
-      functionName: "get-pool-id",
-      functionArgs: [
-        Cl.tuple({
-          "token-0": principalCV(token0),
-          "token-1": principalCV(token1),
-          fee: uintCV(fee),
-        }),
-      ],
-      senderAddress: AMM_CONTRACT_ADDRESS,
-      network,
-    });
-
-    let poolIdCV = cvToJSON(poolIdResult) as any;
-    if (poolIdCV?.type === "response-ok" || poolIdCV?.type === "responseOk") poolIdCV = poolIdCV.value;
-    if (poolIdCV?.type === "optional-some" || poolIdCV?.type === "optionalSome") poolIdCV = poolIdCV.value;
-    if (!(poolIdCV?.type === "buffer" || poolIdCV?.type === "buff")) return null;
-    const poolId = poolIdCV.value as string; // e.g., "0x..."
-
-    // Get pool data
-    const poolDataResult = await callReadOnlyFunction({
-      contractAddress: AMM_CONTRACT_ADDRESS,
-      contractName: AMM_CONTRACT_NAME,
-      functionName: "get-pool-data",
-      functionArgs: [hexToBufferCV(poolId)],
-      senderAddress: AMM_CONTRACT_ADDRESS,
-      network,
-    });
-
-    let poolDataJSON = cvToJSON(poolDataResult) as any;
-    if (poolDataJSON?.type === "response-ok" || poolDataJSON?.type === "responseOk") poolDataJSON = poolDataJSON.value;
-    if (poolDataJSON?.type === "optional-some" || poolDataJSON?.type === "optionalSome") poolDataJSON = poolDataJSON.value;
-    if (!isTupleJSON(poolDataJSON)) return null;
-    const poolData = getJsonInnerValue(poolDataJSON);
+function toPool(poolId: string, data: PoolData): Pool {
+  return {
+    id: poolId,
+    "token-0": data["token-0"],
+    "token-1": data["token-1"],
+    fee: Number(data.fee),
+    liquidity: data.liquidity.toString(),
+    "balance-0": data["balance-0"].toString(),
+    "balance-1": data["balance-1"].toString(),
+  };
+}
 
-    return {
-      id: poolId,
-      "token-0": token0,
-      "token-1": token1,
-      fee,
-      liquidity: Number(getJsonInnerValue(poolData.liquidity)),
-      "balance-0": Number(getJsonInnerValue(poolData["balance-0"])),
-      "balance-1": Number(getJsonInnerValue(poolData["balance-1"])),
-    };
-  } catch (_) {
-    return null;
-  }
+/**
+ * Compute a pool ID locally, mirroring `get-pool-id`: hash160 of the consensus-serialized
+ * `{token-0, token-1, fee}` tuple. Tokens must already be in canonical order.
+ */
+export function computePoolId(token0: string, token1: string, fee: number): string {
+  const serialized = serializeCV(
+    Cl.tuple({
+      "token-0": principalCV(token0),
+      "token-1": principalCV(token1),
+      fee: uintCV(fee),
+    })
+  );
+  return "0x" + Buffer.from(hash160(serialized)).toString("hex");
+}
+
+/**
+ * Read the current state of a pool by its ID. Returns null if no such pool exists.
+ */
+export async function getPoolById(poolId: string): Promise<Pool | null> {
+  const poolData = await readPoolData(poolId);
+  return poolData ? toPool(poolId, poolData) : null;
+}
+
+async function readPoolData(poolId: string): Promise<PoolData | null> {
+  const res = await callAmmReadOnly("get-pool-data", [hexToBufferCV(poolId)]);
+  return decode(poolDataResult, res, "get-pool-data");
 }
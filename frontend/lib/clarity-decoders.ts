@@ -0,0 +1,252 @@
+import {
+  ClarityType,
+  ClarityValue,
+  getCVTypeString,
+  principalToString,
+} from "@stacks/transactions";
+
+/**
+ * Schema-driven decoders for Clarity values returned by read-only calls and print events.
+ *
+ * Each decoder checks the `ClarityType` tag of the value it receives and either returns a
+ * plain TS value or throws a `ClarityDecodeError` naming the path where the shape did not match.
+ * Decoders work on `ClarityValue` directly, so they do not depend on the `cvToJSON` format.
+ */
+export type Decoder<T> = (cv: ClarityValue, path: string) => T;
+
+export class ClarityDecodeError extends Error {
+  constructor(
+    public readonly path: string,
+    public readonly expected: string,
+    public readonly received: ClarityValue
+  ) {
+    super(`Expected ${expected} at ${path}, got ${describe(received)}`);
+    this.name = "ClarityDecodeError";
+  }
+}
+
+function describe(cv: ClarityValue): string {
+  try {
+    return getCVTypeString(cv);
+  } catch {
+    return `ClarityType ${String((cv as { type?: unknown })?.type)}`;
+  }
+}
+
+function expectType<K extends ClarityType>(
+  cv: ClarityValue,
+  type: K,
+  expected: string,
+  path: string
+): Extract<ClarityValue, { type: K }> {
+  if (!cv || cv.type !== type) throw new ClarityDecodeError(path, expected, cv);
+  return cv as Extract<ClarityValue, { type: K }>;
+}
+
+// Primitives
+
+export const uint: Decoder<bigint> = (cv, path) =>
+  BigInt(expectType(cv, ClarityType.UInt, "uint", path).value);
+
+export const bool: Decoder<boolean> = (cv, path) => {
+  if (cv?.type === ClarityType.BoolTrue) return true;
+  if (cv?.type === ClarityType.BoolFalse) return false;
+  throw new ClarityDecodeError(path, "bool", cv);
+};
+
+// Buffers are decoded to a 0x-prefixed hex string, the format used for pool IDs across the app
+export const buffHex: Decoder<string> = (cv, path) => {
+  const { buffer } = expectType(cv, ClarityType.Buffer, "buff", path);
+  return (
+    "0x" +
+    Array.from(buffer)
+      .map((b) => b.toString(16).padStart(2, "0"))
+      .join("")
+  );
+};
+
+export const principal: Decoder<string> = (cv, path) => {
+  if (cv?.type === ClarityType.PrincipalStandard || cv?.type === ClarityType.PrincipalContract) {
+    return principalToString(cv);
+  }
+  throw new ClarityDecodeError(path, "principal", cv);
+};
+
+export const stringAscii: Decoder<string> = (cv, path) =>
+  expectType(cv, ClarityType.StringASCII, "string-ascii", path).data;
+
+export const stringUtf8: Decoder<string> = (cv, path) =>
+  expectType(cv, ClarityType.StringUTF8, "string-utf8", path).data;
+
+// Combinators
+
+export function ok<T>(inner: Decoder<T>): Decoder<T> {
+  return (cv, path) => {
+    const res = expectType(cv, ClarityType.ResponseOk, "(ok ...)", path);
+    return inner(res.value, `${path}.ok`);
+  };
+}
+
+export function optional<T>(inner: Decoder<T>): Decoder<T | null> {
+  return (cv, path) => {
+    if (cv?.type === ClarityType.OptionalNone) return null;
+    const some = expectType(cv, ClarityType.OptionalSome, "optional", path);
+    return inner(some.value, `${path}.some`);
+  };
+}
+
+export function list<T>(inner: Decoder<T>): Decoder<T[]> {
+  return (cv, path) =>
+    expectType(cv, ClarityType.List, "list", path).list.map((item, i) =>
+      inner(item, `${path}[${i}]`)
+    );
+}
+
+type TupleSchema = Record<string, Decoder<unknown>>;
+type TupleOf<S extends TupleSchema> = { [K in keyof S]: ReturnType<S[K]> };
+
+export function tuple<S extends TupleSchema>(schema: S): Decoder<TupleOf<S>> {
+  return (cv, path) => {
+    const { data } = expectType(cv, ClarityType.Tuple, "tuple", path);
+    const out = {} as TupleOf<S>;
+    for (const key of Object.keys(schema) as Array<keyof S & string>) {
+      const field = data[key];
+      if (field === undefined) {
+        throw new ClarityDecodeError(`${path}.${key}`, "tuple field", cv);
+      }
+      out[key] = schema[key](field, `${path}.${key}`) as TupleOf<S>[typeof key];
+    }
+    return out;
+  };
+}
+
+/**
+ * Run a decoder against a value, labelling errors with the function or event it came from.
+ */
+export function decode<T>(decoder: Decoder<T>, cv: ClarityValue, label: string): T {
+  return decoder(cv, label);
+}
+
+// AMM contract schemas
+
+export const poolDataTuple = tuple({
+  "token-0": principal,
+  "token-1": principal,
+  fee: uint,
+  liquidity: uint,
+  "balance-0": uint,
+  "balance-1": uint,
+});
+export type PoolData = ReturnType<typeof poolDataTuple>;
+
+// (get-pool-data) -> (response (optional pool-data) never)
+export const poolDataResult = ok(optional(poolDataTuple));
+// (get-position-liquidity) -> (response uint never)
+export const positionLiquidityResult = ok(uint);
+// (get-price-cumulatives) -> (response { price-0-cumulative, price-1-cumulative, block } uint)
+export const priceCumulativesResult = ok(
+  tuple({
+    "price-0-cumulative": uint,
+    "price-1-cumulative": uint,
+    block: uint,
+  })
+);
+// (get-twap) -> (response { price-0, price-1 } uint)
+export const twapResult = ok(
+  tuple({
+    "price-0": uint,
+    "price-1": uint,
+  })
+);
+// (get-fee-tiers) -> (response (list { fee, enabled }) never)
+export const feeTiersResult = ok(
+  list(
+    tuple({
+      fee: uint,
+      enabled: bool,
+    })
+  )
+);
+// (get-contract-owner) -> (response principal never)
+export const contractOwnerResult = ok(principal);
+// (get-protocol-fee-share) -> (response uint never)
+export const protocolFeeShareResult = ok(uint);
+// (get-protocol-fees) -> { amount-0, amount-1 }
+export const protocolFeesResult = tuple({
+  "amount-0": uint,
+  "amount-1": uint,
+});
+// (get-guardian) -> (response principal never)
+export const guardianResult = ok(principal);
+// (is-paused) -> (response bool never)
+export const pausedResult = ok(bool);
+// (get-pause-state) -> { global, pool }
+export const pauseStateResult = tuple({
+  global: bool,
+  pool: bool,
+});
+
+// Print event payloads, keyed by their `action` field
+export const createPoolEvent = tuple({
+  action: stringAscii,
+  data: poolDataTuple,
+});
+
+export const addLiquidityEvent = tuple({
+  action: stringAscii,
+  "pool-id": buffHex,
+  sender: principal,
+  "amount-0": uint,
+  "amount-1": uint,
+  liquidity: uint, // owner's total liquidity after the deposit
+});
+
+export const removeLiquidityEvent = tuple({
+  action: stringAscii,
+  "pool-id": buffHex,
+  sender: principal,
+  "amount-0": uint,
+  "amount-1": uint,
+  liquidity: uint, // liquidity burned
+});
+
+export const swapEvent = tuple({
+  action: stringAscii,
+  "pool-id": buffHex,
+  sender: principal,
+  "zero-for-one": bool,
+  "input-amount": uint,
+  "output-amount": uint,
+  fees: uint,
+});
+
+export const transferPositionEvent = tuple({
+  action: stringAscii,
+  "pool-id": buffHex,
+  sender: principal,
+  recipient: principal,
+  amount: uint,
+});
+
+export const flashSwapEvent = tuple({
+  action: stringAscii,
+  "pool-id": buffHex,
+  sender: principal,
+  borrower: principal, // callback contract the tokens were lent to
+  "amount-0-out": uint,
+  "amount-1-out": uint,
+  "amount-0-in": uint, // returned by the borrower, including the fee
+  "amount-1-in": uint,
+  "fee-0": uint,
+  "fee-1": uint,
+});
+
+export function eventAction(cv: ClarityValue, label: string): string {
+  return decode(tuple({ action: stringAscii }), cv, label).action;
+}
+
+// SIP-010 schemas
+
+export const sip010Uint = ok(uint); // get-balance, get-decimals, get-total-supply
+export const sip010String = ok(stringAscii); // get-name, get-symbol
+export const sip010TokenUri = ok(optional(stringUtf8)); // get-token-uri
@@ -0,0 +1,36 @@
+/**
+ * Display formatting for token amounts held as base units.
+ */
+
+/**
+ * A base-unit amount as a decimal string in whole tokens, with trailing zeros trimmed
+ * (e.g. 1500000n with 6 decimals is "1.5"). Extra fraction digits beyond maxFractionDigits are cut off.
+ */
+export function formatUnits(amount: bigint, decimals: number, maxFractionDigits = decimals): string {
+  const negative = amount < 0n;
+  const abs = negative ? -amount : amount;
+  const base = 10n ** BigInt(decimals);
+  const whole = abs / base;
+  const fraction = (abs % base)
+    .toString()
+    .padStart(decimals, "0")
+    .slice(0, maxFractionDigits)
+    .replace(/0+$/, "");
+  return `${negative ? "-" : ""}${whole}${fraction ? `.${fraction}` : ""}`;
+}
+
+/**
+ * A base-unit price (tokenOut base units per tokenIn base unit) as whole tokenOut per whole tokenIn.
+ */
+export function formatPrice(
+  numerator: bigint,
+  denominator: bigint,
+  decimalsIn: number,
+  decimalsOut: number,
+  fractionDigits = 8
+): string {
+  if (denominator === 0n) return "-";
+  const scaled =
+    (numerator * 10n ** BigInt(decimalsIn + fractionDigits)) / (denominator * 10n ** BigInt(decimalsOut));
+  return formatUnits(scaled, fractionDigits);
+}
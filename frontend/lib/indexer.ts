@@ -0,0 +1,476 @@
+import { ClarityType, hexToCV } from "@stacks/transactions";
+import { promises as fs } from "fs";
+import path from "path";
+import {
+  computePoolId,
+  ContractEvent,
+  getAllPools,
+  getPoolById,
+  Pool,
+} from "./amm";
+import {
+  addLiquidityEvent,
+  createPoolEvent,
+  decode,
+  eventAction,
+  flashSwapEvent,
+  removeLiquidityEvent,
+  swapEvent,
+  transferPositionEvent,
+} from "./clarity-decoders";
+import { networkConfig } from "./network";
+import { readClient } from "./read-only";
+
+/**
+ * Incremental indexer for AMM print events (server-only, it persists to the local filesystem).
+ *
+ * Decoded `create-pool`, `add-liquidity`, `remove-liquidity`, `swap`, `flash-swap` and `transfer-position` events are stored in a JSON
+ * file together with the latest state of every pool. Each sync pages the contract events feed from
+ * the newest event back to the last one already indexed, so a page load only costs one request
+ * plus one `get-pool-data` read per pool that changed since the previous sync.
+ *
+ * The store location defaults to `.cache/amm-index.json` and can be moved with `AMM_INDEX_PATH`.
+ */
+
+type EventBase = {
+  txId: string;
+  eventIndex: number;
+  poolId: string;
+  blockTime: number | null; // unix seconds of the block that confirmed the transaction, if the API reports one
+};
+
+// Amounts are kept as decimal strings so the store round-trips through JSON without losing precision
+export type IndexedEvent =
+  | (EventBase & { action: "create-pool"; token0: string; token1: string; fee: number })
+  | (EventBase & {
+      action: "add-liquidity";
+      sender: string;
+      amount0: string;
+      amount1: string;
+      liquidity: string; // sender's total liquidity after the deposit
+    })
+  | (EventBase & {
+      action: "remove-liquidity";
+      sender: string;
+      amount0: string;
+      amount1: string;
+      liquidity: string; // liquidity burned
+    })
+  | (EventBase & {
+      action: "swap";
+      sender: string;
+      zeroForOne: boolean;
+      inputAmount: string;
+      outputAmount: string; // paid to the sender, after fees
+      fees: string; // charged in the output token, including the protocol's share
+    })
+  | (EventBase & {
+      action: "flash-swap";
+      sender: string;
+      borrower: string; // callback contract the tokens were lent to
+      amount0Out: string;
+      amount1Out: string;
+      amount0In: string; // returned by the borrower, including the fee
+      amount1In: string;
+      fee0: string; // charged on amount0Out, including the protocol's share
+      fee1: string;
+    })
+  | (EventBase & { action: "transfer-position"; sender: string; recipient: string; amount: string });
+
+export type IndexedAction = IndexedEvent["action"];
+
+type IndexStore = {
+  version: 5;
+  contract: string;
+  // Newest event already indexed; the feed is paged newest-first until this one is reached
+  cursor: { txId: string; eventIndex: number } | null;
+  eventCount: number;
+  pools: Record<string, Pool>;
+  events: IndexedEvent[]; // chronological order
+};
+
+const STORE_VERSION = 5;
+const PAGE_SIZE = 50;
+const STORE_PATH = process.env.AMM_INDEX_PATH || path.join(process.cwd(), ".cache", "amm-index.json");
+
+function emptyStore(): IndexStore {
+  return {
+    version: STORE_VERSION,
+    contract: networkConfig.ammContractPrincipal,
+    cursor: null,
+    eventCount: 0,
+    pools: {},
+    events: [],
+  };
+}
+
+async function loadStore(): Promise<IndexStore> {
+  try {
+    const store = JSON.parse(await fs.readFile(STORE_PATH, "utf8")) as IndexStore;
+    // Start over if the store belongs to another deployment or an older layout
+    if (store.version !== STORE_VERSION || store.contract !== networkConfig.ammContractPrincipal) {
+      return emptyStore();
+    }
+    return store;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.warn("Failed to read AMM index, rebuilding:", err);
+    }
+    return emptyStore();
+  }
+}
+
+async function saveStore(store: IndexStore) {
+  await fs.mkdir(path.dirname(STORE_PATH), { recursive: true });
+  // Write to a temp file first so a crash never leaves a truncated store behind
+  const tmp = `${STORE_PATH}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(store));
+  await fs.rename(tmp, STORE_PATH);
+}
+
+function isCursor(event: ContractEvent, cursor: IndexStore["cursor"]) {
+  return !!cursor && event.tx_id === cursor.txId && event.event_index === cursor.eventIndex;
+}
+
+function eventKey(event: { txId: string; eventIndex: number }) {
+  return `${event.txId}#${event.eventIndex}`;
+}
+
+// Fetch every event newer than the cursor, returned oldest-first. Without the cursor in the feed
+// (pruned, reorged away, or never set) this is the whole history, flagged by `reachedCursor`.
+async function fetchNewEvents(
+  cursor: IndexStore["cursor"]
+): Promise<{ events: ContractEvent[]; reachedCursor: boolean }> {
+  const fresh: ContractEvent[] = [];
+  let reachedCursor = false;
+  let offset = 0;
+
+  for (;;) {
+    const url = `${networkConfig.apiUrl}/extended/v1/contract/${networkConfig.ammContractPrincipal}/events?limit=${PAGE_SIZE}&offset=${offset}`;
+    const res = await fetch(url, { cache: "no-store" });
+    if (!res.ok) throw new Error(`Failed to fetch events: ${res.status} ${res.statusText}`);
+
+    const events = (await res.json()).results as ContractEvent[];
+    const stopAt = events.findIndex((event) => isCursor(event, cursor));
+    fresh.push(...(stopAt === -1 ? events : events.slice(0, stopAt)));
+    reachedCursor = stopAt !== -1;
+    if (reachedCursor || events.length < PAGE_SIZE) break;
+    offset += PAGE_SIZE;
+  }
+
+  // Events that arrive while paging shift the offsets, so a page can repeat events already seen
+  const seen = new Set<string>();
+  const unique = fresh.filter((event) => {
+    const key = eventKey({ txId: event.tx_id, eventIndex: event.event_index });
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  return { events: unique.reverse(), reachedCursor };
+}
+
+// Confirmation time of a transaction, or null if the API doesn't report one
+async function fetchBlockTime(txId: string): Promise<number | null> {
+  const res = await fetch(`${networkConfig.apiUrl}/extended/v1/tx/${txId}`, { cache: "no-store" });
+  if (!res.ok) throw new Error(`Failed to fetch transaction ${txId}: ${res.status} ${res.statusText}`);
+  const tx = await res.json();
+  const time = tx.block_time ?? tx.burn_block_time;
+  return typeof time === "number" ? time : null;
+}
+
+function decodeEvent(event: ContractEvent, blockTime: number | null): IndexedEvent | null {
+  if (
+    event.event_type !== "smart_contract_log" ||
+    event.contract_log.contract_id !== networkConfig.ammContractPrincipal ||
+    event.contract_log.topic !== "print"
+  ) {
+    return null;
+  }
+
+  const cv = hexToCV(event.contract_log.value.hex);
+  // Transfer memos are printed as bare buffers alongside the tuple event
+  if (cv.type !== ClarityType.Tuple) return null;
+  const label = `print event ${event.tx_id}#${event.event_index}`;
+  const base = { txId: event.tx_id, eventIndex: event.event_index, blockTime };
+
+  switch (eventAction(cv, label)) {
+    case "create-pool": {
+      const { data } = decode(createPoolEvent, cv, label);
+      const fee = Number(data.fee);
+      return {
+        ...base,
+        action: "create-pool",
+        poolId: computePoolId(data["token-0"], data["token-1"], fee),
+        token0: data["token-0"],
+        token1: data["token-1"],
+        fee,
+      };
+    }
+    case "add-liquidity":
+    case "remove-liquidity": {
+      const action = eventAction(cv, label) as "add-liquidity" | "remove-liquidity";
+      const decoded = decode(action === "add-liquidity" ? addLiquidityEvent : removeLiquidityEvent, cv, label);
+      return {
+        ...base,
+        action,
+        poolId: decoded["pool-id"],
+        sender: decoded.sender,
+        amount0: decoded["amount-0"].toString(),
+        amount1: decoded["amount-1"].toString(),
+        liquidity: decoded.liquidity.toString(),
+      };
+    }
+    case "swap": {
+      const decoded = decode(swapEvent, cv, label);
+      return {
+        ...base,
+        action: "swap",
+        poolId: decoded["pool-id"],
+        sender: decoded.sender,
+        zeroForOne: decoded["zero-for-one"],
+        inputAmount: decoded["input-amount"].toString(),
+        outputAmount: decoded["output-amount"].toString(),
+        fees: decoded.fees.toString(),
+      };
+    }
+    case "flash-swap": {
+      const decoded = decode(flashSwapEvent, cv, label);
+      return {
+        ...base,
+        action: "flash-swap",
+        poolId: decoded["pool-id"],
+        sender: decoded.sender,
+        borrower: decoded.borrower,
+        amount0Out: decoded["amount-0-out"].toString(),
+        amount1Out: decoded["amount-1-out"].toString(),
+        amount0In: decoded["amount-0-in"].toString(),
+        amount1In: decoded["amount-1-in"].toString(),
+        fee0: decoded["fee-0"].toString(),
+        fee1: decoded["fee-1"].toString(),
+      };
+    }
+    case "transfer-position": {
+      const decoded = decode(transferPositionEvent, cv, label);
+      return {
+        ...base,
+        action: "transfer-position",
+        poolId: decoded["pool-id"],
+        sender: decoded.sender,
+        recipient: decoded.recipient,
+        amount: decoded.amount.toString(),
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+async function runSync(): Promise<IndexStore> {
+  const store = await loadStore();
+  const { events: fresh, reachedCursor } = await fetchNewEvents(store.cursor);
+  if (fresh.length === 0) return store;
+  // A lost cursor means the whole history was fetched again; count it from scratch
+  if (store.cursor && !reachedCursor) store.eventCount = 0;
+  const indexed = new Set(store.events.map(eventKey));
+  // New events mean pools changed, so reads cached before them are stale
+  readClient.clear();
+
+  // One lookup per transaction, shared by all of its events
+  const blockTimes = new Map<string, number | null>();
+  for (const txId of Array.from(new Set(fresh.map((event) => event.tx_id)))) {
+    blockTimes.set(txId, await fetchBlockTime(txId));
+  }
+
+  const touched = new Set<string>();
+  for (const event of fresh) {
+    try {
+      const decoded = decodeEvent(event, blockTimes.get(event.tx_id) ?? null);
+      if (!decoded || indexed.has(eventKey(decoded))) continue;
+      store.events.push(decoded);
+      touched.add(decoded.poolId);
+    } catch (err) {
+      console.error("Skipping undecodable AMM event:", err);
+    }
+  }
+
+  // Refresh the reserves of every pool that changed since the last sync
+  for (const poolId of Array.from(touched)) {
+    const pool = await getPoolById(poolId);
+    if (pool) store.pools[poolId] = pool;
+  }
+
+  const newest = fresh[fresh.length - 1];
+  store.cursor = { txId: newest.tx_id, eventIndex: newest.event_index };
+  store.eventCount += fresh.length;
+  await saveStore(store);
+  return store;
+}
+
+// Concurrent renders share one sync instead of racing on the store file
+let inflight: Promise<IndexStore> | null = null;
+
+/**
+ * Bring the local index up to date with the chain and return it.
+ * If the API is unreachable, the last persisted state is returned instead.
+ */
+export async function syncIndex(): Promise<IndexStore> {
+  if (!inflight) {
+    inflight = runSync()
+      .catch(async (err) => {
+        console.warn("AMM index sync failed, serving cached state:", err);
+        return loadStore();
+      })
+      .finally(() => {
+        inflight = null;
+      });
+  }
+  return inflight;
+}
+
+/**
+ * All known pools, in creation order.
+ * Falls back to a full scan through `getAllPools` when nothing has been indexed yet.
+ */
+export async function getIndexedPools(): Promise<Pool[]> {
+  const store = await syncIndex();
+  const ordered = store.events
+    .filter((event) => event.action === "create-pool")
+    .map((event) => store.pools[event.poolId])
+    .filter((pool): pool is Pool => !!pool);
+  if (ordered.length > 0) return ordered;
+  return getAllPools();
+}
+
+export async function getIndexedPool(poolId: string): Promise<Pool | null> {
+  const store = await syncIndex();
+  return store.pools[poolId] ?? null;
+}
+
+/**
+ * Decoded event history, newest first, optionally narrowed to one pool and/or action.
+ */
+export async function getEventHistory(
+  filter: { poolId?: string; action?: IndexedAction; limit?: number } = {}
+): Promise<IndexedEvent[]> {
+  const store = await syncIndex();
+  const matches = store.events.filter(
+    (event) =>
+      (!filter.poolId || event.poolId === filter.poolId) &&
+      (!filter.action || event.action === filter.action)
+  );
+  return matches.reverse().slice(0, filter.limit ?? matches.length);
+}
+
+export type PoolVolume = {
+  swaps: number;
+  // Decimal strings, per token of the pool
+  volume0: string; // token-0 sold into the pool
+  volume1: string; // token-1 sold into the pool
+  fees0: string; // fees charged in token-0
+  fees1: string; // fees charged in token-1
+};
+
+/**
+ * Swap volume and fees of a pool over the last `windowSeconds` (24 hours by default).
+ * Events without a block time are left out.
+ */
+export async function getPoolVolume(poolId: string, windowSeconds = 24 * 60 * 60): Promise<PoolVolume> {
+  const store = await syncIndex();
+  const since = Math.floor(Date.now() / 1000) - windowSeconds;
+  let swaps = 0;
+  let volume0 = 0n;
+  let volume1 = 0n;
+  let fees0 = 0n;
+  let fees1 = 0n;
+
+  for (const event of store.events) {
+    if (event.action !== "swap" || event.poolId !== poolId) continue;
+    if (event.blockTime === null || event.blockTime < since) continue;
+    swaps++;
+    if (event.zeroForOne) {
+      volume0 += BigInt(event.inputAmount);
+      fees1 += BigInt(event.fees);
+    } else {
+      volume1 += BigInt(event.inputAmount);
+      fees0 += BigInt(event.fees);
+    }
+  }
+
+  return {
+    swaps,
+    volume0: volume0.toString(),
+    volume1: volume1.toString(),
+    fees0: fees0.toString(),
+    fees1: fees1.toString(),
+  };
+}
+
+export type CostBasis = {
+  liquidity: string;
+  // Net token amounts deposited for the liquidity still held, as decimal strings
+  amount0: string;
+  amount1: string;
+};
+
+/**
+ * What `owner` paid in for each of their positions, replayed from the indexed events.
+ * Withdrawals and transfers take their pro-rata share of the basis with them, so a position
+ * received by transfer carries the sender's basis for that liquidity.
+ */
+export async function getCostBasis(owner: string): Promise<Record<string, CostBasis>> {
+  const store = await syncIndex();
+  type Basis = { liquidity: bigint; amount0: bigint; amount1: bigint };
+  const positions = new Map<string, Basis>();
+  const key = (poolId: string, who: string) => `${poolId}:${who}`;
+  const get = (poolId: string, who: string) =>
+    positions.get(key(poolId, who)) ?? { liquidity: 0n, amount0: 0n, amount1: 0n };
+
+  // Remove `liquidity` of a position along with its share of the basis, returning the share
+  function take(poolId: string, who: string, liquidity: bigint): Basis {
+    const basis = get(poolId, who);
+    const share = {
+      liquidity,
+      amount0: basis.liquidity > 0n ? (basis.amount0 * liquidity) / basis.liquidity : 0n,
+      amount1: basis.liquidity > 0n ? (basis.amount1 * liquidity) / basis.liquidity : 0n,
+    };
+    positions.set(key(poolId, who), {
+      liquidity: basis.liquidity - liquidity,
+      amount0: basis.amount0 - share.amount0,
+      amount1: basis.amount1 - share.amount1,
+    });
+    return share;
+  }
+
+  for (const event of store.events) {
+    if (event.action === "add-liquidity") {
+      const basis = get(event.poolId, event.sender);
+      positions.set(key(event.poolId, event.sender), {
+        liquidity: BigInt(event.liquidity),
+        amount0: basis.amount0 + BigInt(event.amount0),
+        amount1: basis.amount1 + BigInt(event.amount1),
+      });
+    } else if (event.action === "remove-liquidity") {
+      take(event.poolId, event.sender, BigInt(event.liquidity));
+    } else if (event.action === "transfer-position") {
+      const moved = take(event.poolId, event.sender, BigInt(event.amount));
+      const basis = get(event.poolId, event.recipient);
+      positions.set(key(event.poolId, event.recipient), {
+        liquidity: basis.liquidity + moved.liquidity,
+        amount0: basis.amount0 + moved.amount0,
+        amount1: basis.amount1 + moved.amount1,
+      });
+    }
+  }
+
+  const result: Record<string, CostBasis> = {};
+  for (const [poolKey, basis] of Array.from(positions.entries())) {
+    const [poolId, who] = poolKey.split(":");
+    if (who !== owner || basis.liquidity === 0n) continue;
+    result[poolId] = {
+      liquidity: basis.liquidity.toString(),
+      amount0: basis.amount0.toString(),
+      amount1: basis.amount1.toString(),
+    };
+  }
+  return result;
+}
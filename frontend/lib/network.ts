@@ -0,0 +1,101 @@
+import {
+  StacksDevnet,
+  StacksMainnet,
+  StacksNetwork,
+  StacksTestnet,
+} from "@stacks/network";
+
+/**
+ * Network and deployment target for the whole app.
+ *
+ * Selected at build time through env vars (Next.js inlines `NEXT_PUBLIC_*`):
+ *   NEXT_PUBLIC_STACKS_NETWORK  mainnet | testnet | devnet (default: testnet)
+ *   NEXT_PUBLIC_STACKS_API_URL  custom Stacks API URL, overrides the network default
+ *   NEXT_PUBLIC_AMM_CONTRACT    AMM contract principal, e.g. "ST1PQ...GZGM.amm-v2"
+ */
+export type NetworkName = "mainnet" | "testnet" | "devnet";
+
+export interface NetworkConfig {
+  name: NetworkName;
+  apiUrl: string;
+  stacksNetwork: StacksNetwork;
+  ammContractAddress: string;
+  ammContractName: string;
+  ammContractPrincipal: string;
+}
+
+const DEFAULTS: Record<NetworkName, { apiUrl: string; ammContract?: string }> = {
+  mainnet: { apiUrl: "https://api.mainnet.hiro.so" },
+  testnet: {
+    apiUrl: "https://api.testnet.hiro.so",
+    ammContract: "ST19JE8EPR84AJ8Z30B5ZB08WXTB6FC2SQHT4K9RM.amm-v2",
+  },
+  // Deployer account from settings/Devnet.toml; Clarinet devnet exposes the API on port 3999
+  devnet: {
+    apiUrl: "http://localhost:3999",
+    ammContract: "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM.amm-v2",
+  },
+};
+
+function parseNetworkName(value: string | undefined): NetworkName {
+  const name = (value || "testnet").trim().toLowerCase();
+  if (name === "mainnet" || name === "testnet" || name === "devnet") return name;
+  throw new Error(`Invalid NEXT_PUBLIC_STACKS_NETWORK: ${value} (expected mainnet, testnet or devnet)`);
+}
+
+function buildStacksNetwork(name: NetworkName, url: string): StacksNetwork {
+  switch (name) {
+    case "mainnet":
+      return new StacksMainnet({ url });
+    case "devnet":
+      return new StacksDevnet({ url });
+    default:
+      return new StacksTestnet({ url });
+  }
+}
+
+function loadNetworkConfig(): NetworkConfig {
+  const name = parseNetworkName(process.env.NEXT_PUBLIC_STACKS_NETWORK);
+  const apiUrl = (process.env.NEXT_PUBLIC_STACKS_API_URL || DEFAULTS[name].apiUrl).replace(/\/+$/, "");
+  const ammContract = process.env.NEXT_PUBLIC_AMM_CONTRACT || DEFAULTS[name].ammContract;
+  if (!ammContract) {
+    throw new Error(`NEXT_PUBLIC_AMM_CONTRACT must be set when targeting ${name}`);
+  }
+  const [ammContractAddress, ammContractName] = ammContract.split(".");
+  if (!ammContractAddress || !ammContractName) {
+    throw new Error(`Invalid NEXT_PUBLIC_AMM_CONTRACT: ${ammContract}`);
+  }
+
+  return {
+    name,
+    apiUrl,
+    stacksNetwork: buildStacksNetwork(name, apiUrl),
+    ammContractAddress,
+    ammContractName,
+    ammContractPrincipal: `${ammContractAddress}.${ammContractName}`,
+  };
+}
+
+export const networkConfig = loadNetworkConfig();
+
+/**
+ * Link to a transaction or address on the Hiro explorer for the configured network.
+ * Contracts, tokens included, are addresses: pass their principal with kind "address".
+ * Devnet links point the explorer at the local API.
+ */
+export function explorerUrl(kind: "txid" | "address", id: string): string {
+  const { name, apiUrl } = networkConfig;
+  const chain = name === "mainnet" ? "mainnet" : "testnet";
+  const params = new URLSearchParams({ chain });
+  if (name === "devnet" || process.env.NEXT_PUBLIC_STACKS_API_URL) params.set("api", apiUrl);
+  return `https://explorer.hiro.so/${kind}/${id}?${params.toString()}`;
+}
+
+/**
+ * Pick the wallet address that matches the configured network from a connected user's profile.
+ */
+export function networkStxAddress(stxAddress: { mainnet: string; testnet: string } | undefined): string | null {
+  if (!stxAddress) return null;
+  const addr = networkConfig.name === "mainnet" ? stxAddress.mainnet : stxAddress.testnet;
+  return typeof addr === "string" ? addr : null;
+}
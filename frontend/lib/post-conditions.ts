@@ -0,0 +1,60 @@
+import { FungiblePostCondition, Pc } from "@stacks/transactions";
+import { networkConfig } from "./network";
+
+/**
+ * Fungible-token post-conditions for AMM calls.
+ *
+ * Every call is sent with PostConditionMode.Deny, so the wallet aborts the transaction if any token
+ * moves that isn't covered here. Post-conditions name the token's `define-fungible-token` asset,
+ * which SIP-010 doesn't expose, so it is read from the contract interface and cached.
+ */
+
+type ContractId = `${string}.${string}`;
+
+const assetNames = new Map<string, Promise<string>>();
+
+async function fetchAssetName(tokenContract: string): Promise<string> {
+  const [address, name] = tokenContract.split(".");
+  const res = await fetch(`${networkConfig.apiUrl}/v2/contracts/interface/${address}/${name}`);
+  if (!res.ok) {
+    throw new Error(`Failed to read contract interface of ${tokenContract}: ${res.status} ${res.statusText}`);
+  }
+  const iface = (await res.json()) as { fungible_tokens?: { name: string }[] };
+  const assetName = iface.fungible_tokens?.[0]?.name;
+  if (!assetName) throw new Error(`${tokenContract} does not define a fungible token`);
+  return assetName;
+}
+
+export function getFungibleAssetName(tokenContract: string): Promise<string> {
+  let assetName = assetNames.get(tokenContract);
+  if (!assetName) {
+    assetName = fetchAssetName(tokenContract);
+    // Don't cache failures, so a transient API error can be retried
+    assetName.catch(() => assetNames.delete(tokenContract));
+    assetNames.set(tokenContract, assetName);
+  }
+  return assetName;
+}
+
+export type Comparison = "eq" | "lte" | "gte";
+
+/**
+ * `principal` sends `amount` of `tokenContract`, compared with `comparison`
+ * (e.g. "gte" reads "sends at least amount").
+ */
+export async function ftPostCondition(
+  principal: string,
+  comparison: Comparison,
+  amount: bigint,
+  tokenContract: string
+): Promise<FungiblePostCondition> {
+  const assetName = await getFungibleAssetName(tokenContract);
+  const sender = Pc.principal(principal);
+  const withAmount =
+    comparison === "eq"
+      ? sender.willSendEq(amount)
+      : comparison === "lte"
+        ? sender.willSendLte(amount)
+        : sender.willSendGte(amount);
+  return withAmount.ft(tokenContract as ContractId, assetName);
+}
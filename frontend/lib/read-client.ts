@@ -0,0 +1,187 @@
+/**
+ * Shared client for read-only contract calls.
+ *
+ * Identical calls in flight share one request, and successful results are cached for a short TTL.
+ * Expired results are swept out as new calls come in, so a long-lived server doesn't keep every read.
+ * At most `concurrency` requests run at once; the rest queue in call order. Responses the node
+ * rejects with 429 or a 5xx status are retried with exponential backoff, honouring `Retry-After`.
+ *
+ * Arguments and results travel as hex-serialized Clarity values, so this module has no runtime
+ * dependencies and runs unchanged in the browser, on the server and in tests with a fake transport.
+ */
+
+export type ReadOnlyCall = {
+  contract: string; // contract principal, "ST...ABC.name"
+  functionName: string;
+  args: string[]; // hex-serialized Clarity values
+  sender: string;
+};
+
+// Performs one call and resolves to the hex-serialized result
+export type ReadTransport = (call: ReadOnlyCall) => Promise<string>;
+
+export class ReadClientHttpError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string,
+    public readonly retryAfterMs: number | null = null
+  ) {
+    super(message);
+    this.name = "ReadClientHttpError";
+  }
+}
+
+export type ReadClientOptions = {
+  transport: ReadTransport;
+  concurrency?: number;
+  ttlMs?: number;
+  maxRetries?: number;
+  baseDelayMs?: number;
+  // Injectable for tests
+  now?: () => number;
+  sleep?: (ms: number) => Promise<void>;
+};
+
+export type ReadClient = {
+  call(call: ReadOnlyCall, options?: { ttlMs?: number }): Promise<string>;
+  // Drop every cached result, e.g. after a transaction changed chain state
+  clear(): void;
+  // Number of cached and in-flight calls
+  size(): number;
+};
+
+const DEFAULT_CONCURRENCY = 6;
+const DEFAULT_TTL_MS = 5000;
+const DEFAULT_MAX_RETRIES = 4;
+const DEFAULT_BASE_DELAY_MS = 250;
+
+function isRetryable(err: unknown): boolean {
+  return err instanceof ReadClientHttpError && (err.status === 429 || err.status >= 500);
+}
+
+function callKey(call: ReadOnlyCall): string {
+  return `${call.contract}::${call.functionName}(${call.args.join(",")})@${call.sender}`;
+}
+
+/**
+ * Transport that calls a Stacks node's `/v2/contracts/call-read` endpoint.
+ */
+export function httpReadTransport(apiUrl: string): ReadTransport {
+  return async ({ contract, functionName, args, sender }) => {
+    const [address, name] = contract.split(".");
+    const res = await fetch(`${apiUrl}/v2/contracts/call-read/${address}/${name}/${functionName}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ sender, arguments: args }),
+      cache: "no-store",
+    });
+    if (!res.ok) {
+      const retryAfter = Number(res.headers.get("retry-after"));
+      throw new ReadClientHttpError(
+        res.status,
+        `${contract}::${functionName} failed: ${res.status} ${res.statusText}`,
+        Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : null
+      );
+    }
+    const body = (await res.json()) as { okay: boolean; result?: string; cause?: string };
+    if (!body.okay || !body.result) {
+      throw new Error(`${contract}::${functionName} failed: ${body.cause ?? "no result"}`);
+    }
+    return body.result;
+  };
+}
+
+export function createReadClient(options: ReadClientOptions): ReadClient {
+  const {
+    transport,
+    concurrency = DEFAULT_CONCURRENCY,
+    ttlMs = DEFAULT_TTL_MS,
+    maxRetries = DEFAULT_MAX_RETRIES,
+    baseDelayMs = DEFAULT_BASE_DELAY_MS,
+    now = Date.now,
+    sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+  } = options;
+
+  // In-flight calls and settled results share one map; `expires` is null until the call settles
+  type Entry = { result: Promise<string>; expires: number | null };
+  const entries = new Map<string, Entry>();
+  const queue: (() => void)[] = [];
+  let active = 0;
+  let nextSweep = 0;
+
+  // Drop expired results, at most once per TTL so calls stay cheap
+  function sweep() {
+    const time = now();
+    if (time < nextSweep) return;
+    nextSweep = time + ttlMs;
+    for (const [key, entry] of Array.from(entries.entries())) {
+      if (entry.expires !== null && entry.expires <= time) entries.delete(key);
+    }
+  }
+
+  // Run `task` in one of the `concurrency` slots, queueing until one is free
+  async function limited<T>(task: () => Promise<T>): Promise<T> {
+    if (active < concurrency) active++;
+    else await new Promise<void>((resolve) => queue.push(resolve));
+    try {
+      return await task();
+    } finally {
+      // Hand the slot straight to the next queued call, or free it
+      const next = queue.shift();
+      if (next) next();
+      else active--;
+    }
+  }
+
+  async function send(call: ReadOnlyCall): Promise<string> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await limited(() => transport(call));
+      } catch (err) {
+        if (!isRetryable(err) || attempt >= maxRetries) throw err;
+        // The slot is free while waiting, so other calls keep flowing
+        const backoff = baseDelayMs * 2 ** attempt + Math.random() * baseDelayMs;
+        await sleep(Math.max((err as ReadClientHttpError).retryAfterMs ?? 0, backoff));
+      }
+    }
+  }
+
+  return {
+    call(call, callOptions = {}) {
+      sweep();
+      const key = callKey(call);
+      const cached = entries.get(key);
+      if (cached && (cached.expires === null || cached.expires > now())) return cached.result;
+
+      const callTtl = callOptions.ttlMs ?? ttlMs;
+      const entry: Entry = {
+        result: send(call).then(
+          (result) => {
+            // Entries dropped by clear() while in flight are not cached
+            if (entries.get(key) === entry) {
+              if (callTtl > 0) entry.expires = now() + callTtl;
+              else entries.delete(key);
+            }
+            return result;
+          },
+          (err) => {
+            // Failures are never cached
+            if (entries.get(key) === entry) entries.delete(key);
+            throw err;
+          }
+        ),
+        expires: null,
+      };
+      entries.set(key, entry);
+      return entry.result;
+    },
+
+    clear() {
+      entries.clear();
+    },
+
+    size() {
+      return entries.size;
+    },
+  };
+}
@@ -0,0 +1,27 @@
+import { type ClarityValue, cvToHex, hexToCV } from "@stacks/transactions";
+import { networkConfig } from "./network";
+import { createReadClient, httpReadTransport } from "./read-client";
+import { onTransactionSettled } from "./transactions";
+
+// One client per page (or server process), so every read shares the same cache and request budget
+export const readClient = createReadClient({ transport: httpReadTransport(networkConfig.apiUrl) });
+
+// A settled transaction can change any pool, position or balance, so cached reads go stale
+if (typeof window !== "undefined") onTransactionSettled(() => readClient.clear());
+
+/**
+ * Call a read-only function through the shared read client.
+ */
+export async function callReadOnly(
+  contract: string,
+  functionName: string,
+  functionArgs: ClarityValue[]
+): Promise<ClarityValue> {
+  const result = await readClient.call({
+    contract,
+    functionName,
+    args: functionArgs.map((arg) => cvToHex(arg)),
+    sender: networkConfig.ammContractAddress,
+  });
+  return hexToCV(result);
+}
@@ -0,0 +1,237 @@
+import type { Pool } from "./amm";
+import { AmmMathError, FEES_DENOM, quoteSwap, quoteSwapExactOutput } from "./amm-math";
+
+/**
+ * Swap routing across the pool graph.
+ *
+ * Tokens are nodes and pools are edges (several pools per pair are separate edges, one per fee).
+ * Every simple path of up to MAX_HOPS pools is quoted with the exact contract math in amm-math.ts,
+ * and the path with the largest final output wins. Routes map onto `swap` (1 hop) or
+ * `swap-2-hop` / `swap-3-hop` in amm.clar. Exact-output routes are always a single pool
+ * and map onto `swap-exact-output`.
+ */
+
+export const MAX_HOPS = 3;
+
+export type RouteHop = {
+  pool: Pool;
+  tokenIn: string;
+  tokenOut: string;
+  zeroForOne: boolean;
+  amountIn: bigint;
+  amountOut: bigint;
+  fees: bigint; // swap fee kept by the pool, in tokenOut
+};
+
+export type Route = {
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: bigint;
+  amountOut: bigint;
+  hops: RouteHop[];
+};
+
+function otherToken(pool: Pool, token: string): string | null {
+  if (pool["token-0"] === token) return pool["token-1"];
+  if (pool["token-1"] === token) return pool["token-0"];
+  return null;
+}
+
+/**
+ * All simple paths (no token visited twice) from tokenIn to tokenOut, as lists of pools.
+ */
+export function findPaths(pools: Pool[], tokenIn: string, tokenOut: string, maxHops = MAX_HOPS): Pool[][] {
+  const paths: Pool[][] = [];
+
+  function walk(token: string, visited: Set<string>, path: Pool[]) {
+    if (path.length === maxHops) return;
+    for (const pool of pools) {
+      const next = otherToken(pool, token);
+      if (!next || visited.has(next)) continue;
+      if (next === tokenOut) {
+        paths.push([...path, pool]);
+        continue;
+      }
+      visited.add(next);
+      walk(next, visited, [...path, pool]);
+      visited.delete(next);
+    }
+  }
+
+  if (tokenIn !== tokenOut) walk(tokenIn, new Set([tokenIn]), []);
+  return paths;
+}
+
+/**
+ * Quote a path hop by hop, feeding each hop's output into the next.
+ * Throws an AmmMathError if any hop would abort on-chain.
+ */
+export function quotePath(path: Pool[], tokenIn: string, amountIn: bigint): Route {
+  const hops: RouteHop[] = [];
+  let token = tokenIn;
+  let amount = amountIn;
+
+  for (const pool of path) {
+    const tokenOut = otherToken(pool, token);
+    if (!tokenOut) throw new Error(`Pool ${pool.id} does not trade ${token}`);
+    const zeroForOne = pool["token-0"] === token;
+    const quote = quoteSwap(
+      { balance0: BigInt(pool["balance-0"]), balance1: BigInt(pool["balance-1"]) },
+      BigInt(pool.fee),
+      amount,
+      zeroForOne
+    );
+    hops.push({
+      pool,
+      tokenIn: token,
+      tokenOut,
+      zeroForOne,
+      amountIn: amount,
+      amountOut: quote.outputAmount,
+      fees: quote.fees,
+    });
+    token = tokenOut;
+    amount = quote.outputAmount;
+  }
+
+  return { tokenIn, tokenOut: token, amountIn, amountOut: amount, hops };
+}
+
+/**
+ * The route with the highest output for amountIn, or null if no path can execute.
+ * Ties go to the route with fewer hops.
+ */
+export function findBestRoute(
+  pools: Pool[],
+  tokenIn: string,
+  tokenOut: string,
+  amountIn: bigint,
+  maxHops = MAX_HOPS
+): Route | null {
+  let best: Route | null = null;
+  for (const path of findPaths(pools, tokenIn, tokenOut, maxHops)) {
+    let route: Route;
+    try {
+      route = quotePath(path, tokenIn, amountIn);
+    } catch (err) {
+      if (err instanceof AmmMathError) continue;
+      throw err;
+    }
+    if (
+      !best ||
+      route.amountOut > best.amountOut ||
+      (route.amountOut === best.amountOut && route.hops.length < best.hops.length)
+    ) {
+      best = route;
+    }
+  }
+  return best;
+}
+
+/**
+ * The single-pool route that pays out at least amountOut for the least input, or null if no pool can.
+ * The route's amountOut is what the swap actually pays, which rounding can leave slightly above amountOut.
+ */
+export function findBestExactOutputRoute(
+  pools: Pool[],
+  tokenIn: string,
+  tokenOut: string,
+  amountOut: bigint
+): Route | null {
+  let best: Route | null = null;
+  for (const [pool] of findPaths(pools, tokenIn, tokenOut, 1)) {
+    const zeroForOne = pool["token-0"] === tokenIn;
+    let quote;
+    try {
+      quote = quoteSwapExactOutput(
+        { balance0: BigInt(pool["balance-0"]), balance1: BigInt(pool["balance-1"]) },
+        BigInt(pool.fee),
+        amountOut,
+        zeroForOne
+      );
+    } catch (err) {
+      if (err instanceof AmmMathError) continue;
+      throw err;
+    }
+    if (!best || quote.inputAmount < best.amountIn) {
+      const hop = {
+        pool,
+        tokenIn,
+        tokenOut,
+        zeroForOne,
+        amountIn: quote.inputAmount,
+        amountOut: quote.outputAmount,
+        fees: quote.fees,
+      };
+      best = { tokenIn, tokenOut, amountIn: quote.inputAmount, amountOut: quote.outputAmount, hops: [hop] };
+    }
+  }
+  return best;
+}
+
+// A price as an exact fraction of base units of tokenOut per base unit of tokenIn
+export type Ratio = { numerator: bigint; denominator: bigint };
+
+export type RoutePrices = {
+  spotPrice: Ratio; // marginal price before the swap, chained across hops and before fees
+  executionPrice: Ratio; // amountOut / amountIn
+  priceImpactPct: number; // how far the execution price falls short of the spot price, excluding fees
+};
+
+// Price impact is resolved to 0.0001%
+const IMPACT_SCALE = 1_000_000n;
+
+/**
+ * Spot and execution prices of a route and the price impact between them. Fees are priced out of the
+ * impact, so a tiny swap through a 1% pool shows close to 0% impact rather than 1%.
+ */
+export function routePrices(route: Route): RoutePrices {
+  let spotNumerator = 1n;
+  let spotDenominator = 1n;
+  let feeNumerator = 1n;
+  let feeDenominator = 1n;
+  for (const hop of route.hops) {
+    const balance0 = BigInt(hop.pool["balance-0"]);
+    const balance1 = BigInt(hop.pool["balance-1"]);
+    spotNumerator *= hop.zeroForOne ? balance1 : balance0;
+    spotDenominator *= hop.zeroForOne ? balance0 : balance1;
+    feeNumerator *= FEES_DENOM - BigInt(hop.pool.fee);
+    feeDenominator *= FEES_DENOM;
+  }
+
+  // Output at the spot price after fees, which a swap of infinitesimal size would get
+  const idealNumerator = route.amountIn * spotNumerator * feeNumerator;
+  const idealDenominator = spotDenominator * feeDenominator;
+  const filled =
+    idealNumerator > 0n ? (route.amountOut * idealDenominator * IMPACT_SCALE) / idealNumerator : 0n;
+  const impact = filled >= IMPACT_SCALE ? 0n : IMPACT_SCALE - filled;
+
+  return {
+    spotPrice: { numerator: spotNumerator, denominator: spotDenominator },
+    executionPrice: { numerator: route.amountOut, denominator: route.amountIn },
+    priceImpactPct: (Number(impact) / Number(IMPACT_SCALE)) * 100,
+  };
+}
+
+/**
+ * Tokens that can be reached from tokenIn within maxHops pools.
+ */
+export function reachableTokens(pools: Pool[], tokenIn: string, maxHops = MAX_HOPS): string[] {
+  const seen = new Set([tokenIn]);
+  let frontier = [tokenIn];
+  for (let hop = 0; hop < maxHops && frontier.length > 0; hop++) {
+    const next: string[] = [];
+    for (const token of frontier) {
+      for (const pool of pools) {
+        const other = otherToken(pool, token);
+        if (other && !seen.has(other)) {
+          seen.add(other);
+          next.push(other);
+        }
+      }
+    }
+    frontier = next;
+  }
+  seen.delete(tokenIn);
+  return Array.from(seen);
+}
@@ -0,0 +1,70 @@
+/**
+ * User trading settings, persisted per browser in localStorage.
+ */
+export type Settings = {
+  // Maximum tolerated drop from the quoted amounts, in basis points (50 = 0.5%)
+  slippageBps: number;
+  // Minutes a submitted trade stays valid before the contract rejects it (0 = no deadline)
+  deadlineMinutes: number;
+  // Swaps with at least this price impact show a warning, in basis points
+  priceImpactWarnBps: number;
+  // Swaps with at least this price impact need an explicit confirmation, in basis points
+  priceImpactBlockBps: number;
+};
+
+export const DEFAULT_SETTINGS: Settings = {
+  slippageBps: 50,
+  deadlineMinutes: 20,
+  priceImpactWarnBps: 300,
+  priceImpactBlockBps: 1500,
+};
+
+const STORAGE_KEY = "amm:settings";
+const CHANGE_EVENT = "amm:settings-changed";
+
+function inRange(value: unknown, min: number, max: number, fallback: number): number {
+  const n = Number(value);
+  return Number.isInteger(n) && n >= min && n <= max ? n : fallback;
+}
+
+// Settings with every out-of-range value replaced by its default and the warning kept at or below the block
+export function sanitizeSettings(raw: Partial<Settings>): Settings {
+  const priceImpactBlockBps = inRange(raw.priceImpactBlockBps, 0, 10000, DEFAULT_SETTINGS.priceImpactBlockBps);
+  const priceImpactWarnBps = inRange(raw.priceImpactWarnBps, 0, 10000, DEFAULT_SETTINGS.priceImpactWarnBps);
+  return {
+    slippageBps: inRange(raw.slippageBps, 0, 5000, DEFAULT_SETTINGS.slippageBps),
+    deadlineMinutes: inRange(raw.deadlineMinutes, 0, 4320, DEFAULT_SETTINGS.deadlineMinutes),
+    // A swap is always warned about before it's blocked
+    priceImpactWarnBps: Math.min(priceImpactWarnBps, priceImpactBlockBps),
+    priceImpactBlockBps,
+  };
+}
+
+export function loadSettings(): Settings {
+  if (typeof window === "undefined") return DEFAULT_SETTINGS;
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return stored ? sanitizeSettings(JSON.parse(stored)) : DEFAULT_SETTINGS;
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+}
+
+export function saveSettings(update: Partial<Settings>): Settings {
+  const next = sanitizeSettings({ ...loadSettings(), ...update });
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  // Let every mounted settings consumer pick up the change
+  window.dispatchEvent(new Event(CHANGE_EVENT));
+  return next;
+}
+
+export function onSettingsChange(listener: (settings: Settings) => void): () => void {
+  const handler = () => listener(loadSettings());
+  window.addEventListener(CHANGE_EVENT, handler);
+  // Changes made in other tabs arrive as storage events
+  window.addEventListener("storage", handler);
+  return () => {
+    window.removeEventListener(CHANGE_EVENT, handler);
+    window.removeEventListener("storage", handler);
+  };
+}
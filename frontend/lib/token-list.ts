@@ -0,0 +1,137 @@
+import { validateStacksAddress } from "@stacks/transactions";
+import devnetList from "@/config/token-lists/devnet.json";
+import mainnetList from "@/config/token-lists/mainnet.json";
+import testnetList from "@/config/token-lists/testnet.json";
+import { NetworkName, networkConfig } from "./network";
+
+/**
+ * Known tokens: the configured token list plus tokens the user imported in this browser.
+ *
+ * The list defaults to the bundled config/token-lists/<network>.json and can be replaced with a
+ * hosted list of the same shape through NEXT_PUBLIC_TOKEN_LIST_URL. Imported tokens are validated
+ * against the chain before they are saved (see `checkToken` in tokens.ts) and persist in localStorage.
+ */
+
+export type TokenListEntry = {
+  contract: string;
+  name: string;
+  symbol: string;
+  decimals: number;
+  logo?: string;
+};
+
+export type TokenList = {
+  name: string;
+  tokens: TokenListEntry[];
+};
+
+const BUNDLED_LISTS: Record<NetworkName, TokenList> = {
+  mainnet: mainnetList,
+  testnet: testnetList,
+  devnet: devnetList,
+};
+
+const STORAGE_KEY = `amm:imported-tokens:${networkConfig.name}`;
+const CHANGE_EVENT = "amm:imported-tokens-changed";
+
+const CONTRACT_NAME = /^[a-zA-Z]([a-zA-Z0-9]|[-_])*$/;
+
+// "ST...ABC.token-name" with a valid address for the configured network and a valid contract name
+export function isContractPrincipal(value: string): boolean {
+  const [address, name, ...rest] = value.split(".");
+  return rest.length === 0 && !!address && !!name && validateStacksAddress(address) && CONTRACT_NAME.test(name);
+}
+
+function isTokenListEntry(value: unknown): value is TokenListEntry {
+  const entry = value as TokenListEntry;
+  return (
+    !!entry &&
+    typeof entry.contract === "string" &&
+    isContractPrincipal(entry.contract) &&
+    typeof entry.name === "string" &&
+    typeof entry.symbol === "string" &&
+    Number.isInteger(entry.decimals) &&
+    entry.decimals >= 0 &&
+    (entry.logo === undefined || typeof entry.logo === "string")
+  );
+}
+
+// Keep the well-formed entries of a parsed list, each contract once
+export function parseTokenList(raw: unknown): TokenList {
+  const list = raw as Partial<TokenList>;
+  if (!list || !Array.isArray(list.tokens)) throw new Error("Token list must have a tokens array");
+  const byContract = new Map<string, TokenListEntry>();
+  for (const entry of list.tokens) {
+    if (isTokenListEntry(entry)) byContract.set(entry.contract, entry);
+    else console.warn("Skipping malformed token list entry:", entry);
+  }
+  return { name: typeof list.name === "string" ? list.name : "Token list", tokens: Array.from(byContract.values()) };
+}
+
+let listPromise: Promise<TokenList> | null = null;
+
+/**
+ * The configured token list, fetched once. A hosted list that fails to load falls back to the bundled one.
+ */
+export function getTokenList(): Promise<TokenList> {
+  if (!listPromise) {
+    const url = process.env.NEXT_PUBLIC_TOKEN_LIST_URL;
+    const bundled = parseTokenList(BUNDLED_LISTS[networkConfig.name]);
+    listPromise = url
+      ? fetch(url)
+          .then((res) => {
+            if (!res.ok) throw new Error(`${res.status} ${res.statusText}`);
+            return res.json();
+          })
+          .then(parseTokenList)
+          .catch((err) => {
+            console.warn(`Failed to load token list from ${url}, using the bundled list:`, err);
+            return bundled;
+          })
+      : Promise.resolve(bundled);
+  }
+  return listPromise;
+}
+
+export function loadImportedTokens(): TokenListEntry[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return stored ? parseTokenList({ tokens: JSON.parse(stored) }).tokens : [];
+  } catch {
+    return [];
+  }
+}
+
+function storeImportedTokens(tokens: TokenListEntry[]) {
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(tokens));
+  window.dispatchEvent(new Event(CHANGE_EVENT));
+}
+
+export function saveImportedToken(token: TokenListEntry) {
+  storeImportedTokens([...loadImportedTokens().filter((t) => t.contract !== token.contract), token]);
+}
+
+export function removeImportedToken(contract: string) {
+  storeImportedTokens(loadImportedTokens().filter((t) => t.contract !== contract));
+}
+
+export function onImportedTokensChange(listener: (tokens: TokenListEntry[]) => void): () => void {
+  const handler = () => listener(loadImportedTokens());
+  window.addEventListener(CHANGE_EVENT, handler);
+  // Imports made in other tabs arrive as storage events
+  window.addEventListener("storage", handler);
+  return () => {
+    window.removeEventListener(CHANGE_EVENT, handler);
+    window.removeEventListener("storage", handler);
+  };
+}
+
+/**
+ * Every known token: the list first, then imports not already on it.
+ */
+export async function getKnownTokens(): Promise<TokenListEntry[]> {
+  const { tokens } = await getTokenList();
+  const listed = new Set(tokens.map((token) => token.contract));
+  return [...tokens, ...loadImportedTokens().filter((token) => !listed.has(token.contract))];
+}
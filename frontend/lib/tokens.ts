@@ -0,0 +1,191 @@
+import type { Pool } from "./amm";
+import { decode, Decoder, sip010String, sip010TokenUri, sip010Uint } from "./clarity-decoders";
+import { formatUnits } from "./format";
+import { callReadOnly } from "./read-only";
+import { getKnownTokens, isContractPrincipal, TokenListEntry } from "./token-list";
+
+/**
+ * SIP-010 token metadata, read once per token and cached for the lifetime of the page (or server process).
+ *
+ * `get-name`, `get-symbol`, `get-decimals` and `get-token-uri` are read together on first use.
+ * If the token URI points at a JSON metadata document, its `image` becomes the token's icon. Anyone can deploy
+ * a token, so its URI is only fetched from the browser (never during server renders) and only over https: or ipfs:.
+ * Tokens on the token list (or imported by the user) take their metadata from the list instead.
+ */
+
+export type TokenMetadata = {
+  contract: string;
+  name: string;
+  symbol: string;
+  decimals: number;
+  tokenUri: string | null;
+  image: string | null; // icon URL from the token-uri document, if any
+};
+
+const IPFS_GATEWAY = "https://ipfs.io/ipfs/";
+const TOKEN_URI_TIMEOUT_MS = 5000;
+
+// In-flight and settled reads share one promise, so a token is never read twice
+const cache = new Map<string, Promise<TokenMetadata>>();
+// Settled reads, for synchronous lookups
+const resolved = new Map<string, TokenMetadata>();
+
+// "ST1...ABC.token-name" -> "token-name", the fallback label before metadata loads
+export function contractName(token: string): string {
+  return token.split(".")[1] ?? token;
+}
+
+async function readToken<T>(token: string, functionName: string, decoder: Decoder<T>): Promise<T> {
+  const res = await callReadOnly(token, functionName, []);
+  return decode(decoder, res, `${token}::${functionName}`);
+}
+
+// ipfs:// URIs are served through a public gateway; anything but https: and ipfs: is ignored
+function resolveUri(uri: string): string | null {
+  if (uri.startsWith("ipfs://")) return IPFS_GATEWAY + uri.slice("ipfs://".length);
+  return uri.startsWith("https://") ? uri : null;
+}
+
+// Icon from a token-uri metadata document; tokens without one, or with an unreachable one, get none
+async function fetchTokenImage(tokenUri: string): Promise<string | null> {
+  // The URI is chosen by the token's deployer, so the server never fetches it
+  if (typeof window === "undefined") return null;
+  const url = resolveUri(tokenUri);
+  if (!url) return null;
+  try {
+    const res = await fetch(url, { signal: AbortSignal.timeout(TOKEN_URI_TIMEOUT_MS) });
+    if (!res.ok) return null;
+    const { image } = await res.json();
+    return typeof image === "string" ? resolveUri(image) : null;
+  } catch (err) {
+    console.warn(`Could not resolve token URI ${tokenUri}:`, err);
+    return null;
+  }
+}
+
+// Token list entries carry everything shown, so listed tokens skip the chain reads
+export function listEntryMetadata(entry: TokenListEntry): TokenMetadata {
+  return {
+    contract: entry.contract,
+    name: entry.name,
+    symbol: entry.symbol,
+    decimals: entry.decimals,
+    tokenUri: null,
+    image: entry.logo ?? null,
+  };
+}
+
+async function readTokenMetadata(token: string): Promise<TokenMetadata> {
+  const [name, symbol, decimals, tokenUri] = await Promise.all([
+    readToken(token, "get-name", sip010String),
+    readToken(token, "get-symbol", sip010String),
+    readToken(token, "get-decimals", sip010Uint),
+    readToken(token, "get-token-uri", sip010TokenUri),
+  ]);
+  return {
+    contract: token,
+    name,
+    symbol,
+    decimals: Number(decimals),
+    tokenUri,
+    image: tokenUri ? await fetchTokenImage(tokenUri) : null,
+  };
+}
+
+async function loadTokenMetadata(token: string): Promise<TokenMetadata> {
+  const listed = (await getKnownTokens()).find((entry) => entry.contract === token);
+  const metadata = listed ? listEntryMetadata(listed) : await readTokenMetadata(token);
+  resolved.set(token, metadata);
+  return metadata;
+}
+
+export function getTokenMetadata(token: string): Promise<TokenMetadata> {
+  let pending = cache.get(token);
+  if (!pending) {
+    // Forget failed reads so the next call retries instead of replaying the error
+    pending = loadTokenMetadata(token).catch((err) => {
+      cache.delete(token);
+      throw err;
+    });
+    cache.set(token, pending);
+  }
+  return pending;
+}
+
+/**
+ * Check that `principal` is a SIP-010 token before it is imported: every read-only function the AMM
+ * relies on must answer with a well-formed value. Always reads the chain, bypassing the list and cache.
+ */
+export async function checkToken(principal: string): Promise<TokenListEntry> {
+  const token = principal.trim();
+  if (!isContractPrincipal(token)) throw new Error(`${token || "(empty)"} is not a contract principal`);
+
+  let metadata: TokenMetadata;
+  try {
+    [metadata] = await Promise.all([
+      readTokenMetadata(token),
+      // Not shown, but a SIP-010 token must implement it
+      readToken(token, "get-total-supply", sip010Uint),
+    ]);
+  } catch (err) {
+    console.warn(`${token} failed SIP-010 validation:`, err);
+    throw new Error(`${token} is not a SIP-010 token, or does not exist on this network`);
+  }
+  return {
+    contract: token,
+    name: metadata.name,
+    symbol: metadata.symbol,
+    decimals: metadata.decimals,
+    ...(metadata.image ? { logo: metadata.image } : {}),
+  };
+}
+
+/**
+ * Metadata for several tokens, keyed by contract. Tokens whose metadata can't be read are left out,
+ * so callers fall back to the contract name and base units for them.
+ */
+export async function getTokensMetadata(tokens: string[]): Promise<Record<string, TokenMetadata>> {
+  const unique = Array.from(new Set(tokens));
+  const results = await Promise.allSettled(unique.map(getTokenMetadata));
+  const metadata: Record<string, TokenMetadata> = {};
+  results.forEach((result, i) => {
+    if (result.status === "fulfilled") metadata[unique[i]] = result.value;
+    else console.warn(`Could not read metadata of ${unique[i]}:`, result.reason);
+  });
+  return metadata;
+}
+
+// Already-loaded metadata, without reading the chain
+export function peekTokenMetadata(token: string): TokenMetadata | undefined {
+  return resolved.get(token);
+}
+
+export function tokenSymbol(token: string, metadata?: TokenMetadata): string {
+  return metadata?.symbol ?? contractName(token);
+}
+
+/**
+ * A base-unit amount in whole tokens with the token's symbol, e.g. "1.5 USDA".
+ * Without metadata the raw amount is shown and marked as base units.
+ */
+export function formatTokenAmount(
+  amount: bigint,
+  token: string,
+  metadata?: TokenMetadata,
+  maxFractionDigits?: number
+): string {
+  if (!metadata) return `${amount} ${contractName(token)} (base units)`;
+  return `${formatUnits(amount, metadata.decimals, maxFractionDigits)} ${metadata.symbol}`;
+}
+
+// "SYM0 / SYM1 (0.3%)", how pools are named in selects and lists
+export function poolLabel(pool: Pool, metadata: Record<string, TokenMetadata>): string {
+  const token0 = pool["token-0"];
+  const token1 = pool["token-1"];
+  return `${tokenSymbol(token0, metadata[token0])} / ${tokenSymbol(token1, metadata[token1])} (${pool.fee / 100}%)`;
+}
+
+// Every token traded by `pools`, each once
+export function poolTokens(pools: Pool[]): string[] {
+  return Array.from(new Set(pools.flatMap((pool) => [pool["token-0"], pool["token-1"]])));
+}
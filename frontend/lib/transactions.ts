@@ -0,0 +1,178 @@
+import { ClarityType, hexToCV } from "@stacks/transactions";
+import { describeErrorCode } from "./amm-errors";
+import { networkConfig } from "./network";
+
+/**
+ * Submitted transaction tracker, persisted per browser in localStorage.
+ *
+ * Wallet calls record their txid here on submission; the toaster polls pending entries until the
+ * API reports a final status, then announces which pools and tokens the transaction touched so
+ * only that data is re-read.
+ */
+
+export type TxKind =
+  | "create-pool"
+  | "add-liquidity"
+  | "zap-in"
+  | "remove-liquidity"
+  | "transfer-position"
+  | "swap"
+  | "mint"
+  | "set-protocol-fee"
+  | "set-fee-tier"
+  | "collect-protocol-fees"
+  | "set-paused"
+  | "set-pool-paused";
+
+export type TxStatus =
+  | "pending"
+  | "success"
+  | "abort_by_response"
+  | "abort_by_post_condition"
+  | "dropped";
+
+export type TrackedTx = {
+  txId: string;
+  kind: TxKind;
+  description: string;
+  status: TxStatus;
+  submittedAt: number;
+  // Pools and token contracts whose on-chain state changes when the transaction confirms
+  poolIds: string[];
+  tokens: string[];
+  // User-facing reason for a failed transaction
+  error?: string;
+  // Consecutive polls the API answered 404, reset once it knows the transaction
+  notFoundPolls?: number;
+};
+
+// `notFound`: the API doesn't know the txid (yet), which still counts as pending
+export type TxStatusResult = { status: TxStatus; error?: string; notFound?: boolean };
+
+const STORAGE_KEY = "amm:transactions";
+const CHANGE_EVENT = "amm:transactions-changed";
+const SETTLED_EVENT = "amm:transaction-settled";
+// Finished entries are pruned after a day, and only the newest are kept, so storage doesn't grow forever
+const MAX_AGE_MS = 24 * 60 * 60 * 1000;
+const MAX_ENTRIES = 50;
+// A txid the API still doesn't know after this many polls (about 10 minutes) never reached the mempool
+const MAX_NOT_FOUND_POLLS = 120;
+// Transactions pending this long are given up on rather than polled forever
+const MAX_PENDING_MS = MAX_AGE_MS;
+
+export function isFinal(status: TxStatus): boolean {
+  return status !== "pending";
+}
+
+// Newest first: finished entries older than MAX_AGE_MS dropped, then capped at MAX_ENTRIES
+function prune(txs: TrackedTx[]): TrackedTx[] {
+  const cutoff = Date.now() - MAX_AGE_MS;
+  return txs
+    .filter((tx) => !isFinal(tx.status) || tx.submittedAt >= cutoff)
+    .sort((a, b) => b.submittedAt - a.submittedAt)
+    .slice(0, MAX_ENTRIES);
+}
+
+export function loadTransactions(): TrackedTx[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return stored ? prune(JSON.parse(stored) as TrackedTx[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveTransactions(txs: TrackedTx[]) {
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(prune(txs)));
+  window.dispatchEvent(new Event(CHANGE_EVENT));
+}
+
+export function trackTransaction(tx: Omit<TrackedTx, "status" | "submittedAt">) {
+  const txs = loadTransactions().filter((existing) => existing.txId !== tx.txId);
+  saveTransactions([{ ...tx, status: "pending", submittedAt: Date.now() }, ...txs]);
+}
+
+export function dismissTransaction(txId: string) {
+  saveTransactions(loadTransactions().filter((tx) => tx.txId !== txId));
+}
+
+/**
+ * Record a poll result. A transaction the API keeps not finding, or that stays pending past
+ * MAX_PENDING_MS, is marked dropped. Moving to a final status also notifies settled-transaction listeners.
+ */
+export function updateTransactionStatus(txId: string, result: TxStatusResult) {
+  const txs = loadTransactions();
+  const tx = txs.find((existing) => existing.txId === txId);
+  if (!tx || isFinal(tx.status)) return;
+
+  let { status, error } = result;
+  const notFoundPolls = result.notFound ? (tx.notFoundPolls ?? 0) + 1 : 0;
+  if (status === "pending" && notFoundPolls >= MAX_NOT_FOUND_POLLS) {
+    status = "dropped";
+    error = "The network never picked up this transaction";
+  } else if (status === "pending" && Date.now() - tx.submittedAt >= MAX_PENDING_MS) {
+    status = "dropped";
+    error = "Still pending after a day; check the explorer before retrying";
+  }
+  if (tx.status === status && (tx.notFoundPolls ?? 0) === notFoundPolls) return;
+
+  tx.status = status;
+  tx.error = error;
+  tx.notFoundPolls = notFoundPolls;
+  saveTransactions(txs);
+  if (isFinal(status)) {
+    window.dispatchEvent(new CustomEvent<TrackedTx>(SETTLED_EVENT, { detail: tx }));
+  }
+}
+
+export function onTransactionsChange(listener: (txs: TrackedTx[]) => void): () => void {
+  const handler = () => listener(loadTransactions());
+  window.addEventListener(CHANGE_EVENT, handler);
+  // Changes made in other tabs arrive as storage events
+  window.addEventListener("storage", handler);
+  return () => {
+    window.removeEventListener(CHANGE_EVENT, handler);
+    window.removeEventListener("storage", handler);
+  };
+}
+
+export function onTransactionSettled(listener: (tx: TrackedTx) => void): () => void {
+  const handler = (event: Event) => listener((event as CustomEvent<TrackedTx>).detail);
+  window.addEventListener(SETTLED_EVENT, handler);
+  return () => window.removeEventListener(SETTLED_EVENT, handler);
+}
+
+// Decode the `(err uN)` an aborted contract call returned into the catalog message
+function abortReason(resultHex: string | undefined): string | undefined {
+  if (!resultHex) return undefined;
+  try {
+    const result = hexToCV(resultHex);
+    if (result.type === ClarityType.ResponseErr && result.value.type === ClarityType.UInt) {
+      return describeErrorCode(result.value.value);
+    }
+  } catch {
+    // Fall through to the generic status label
+  }
+  return undefined;
+}
+
+/**
+ * Current status of a transaction from the Stacks API. A txid the API doesn't know yet (404)
+ * is reported as pending and `notFound`, since freshly broadcast transactions take a moment to be indexed.
+ */
+export async function fetchTransactionStatus(txId: string): Promise<TxStatusResult> {
+  const id = txId.startsWith("0x") ? txId : `0x${txId}`;
+  const res = await fetch(`${networkConfig.apiUrl}/extended/v1/tx/${id}`, { cache: "no-store" });
+  if (res.status === 404) return { status: "pending", notFound: true };
+  if (!res.ok) throw new Error(`Failed to fetch transaction ${id}: ${res.status} ${res.statusText}`);
+  const tx = (await res.json()) as { tx_status: string; tx_result?: { hex: string } };
+  if (tx.tx_status.startsWith("dropped")) return { status: "dropped" };
+  if (tx.tx_status === "abort_by_response") {
+    return { status: "abort_by_response", error: abortReason(tx.tx_result?.hex) };
+  }
+  if (tx.tx_status === "success" || tx.tx_status === "abort_by_post_condition") {
+    return { status: tx.tx_status };
+  }
+  return { status: "pending" };
+}
@@ -0,0 +1,51 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import {
+  AMM_ERROR_MESSAGES,
+  AmmError,
+  ammErrorFromCode,
+  AmmErrorCode,
+  describeErrorCode,
+  PoolNotFoundError,
+} from "../frontend/lib/amm-errors";
+
+const source = readFileSync("contracts/amm.clar", "utf8");
+
+// ERR_* constants declared in amm.clar, as { NAME: code }
+const contractErrors = Object.fromEntries(
+  [...source.matchAll(/\(define-constant ERR_(\w+) \(err u(\d+)\)\)/g)].map(([, name, code]) => [
+    name,
+    Number(code),
+  ])
+);
+
+describe("AMM error catalog", () => {
+  it("matches every error constant in amm.clar", () => {
+    expect(contractErrors).toEqual(AmmErrorCode);
+  });
+
+  it("uses a unique code for every error", () => {
+    const codes = Object.values(contractErrors);
+    expect(new Set(codes).size).toBe(codes.length);
+  });
+
+  it("never aborts with a bare (err u0)", () => {
+    expect(source).not.toMatch(/\(err u0\)/);
+  });
+
+  it("maps each code to its typed error and message", () => {
+    for (const code of Object.values(AmmErrorCode)) {
+      const err = ammErrorFromCode(code);
+      expect(err).toBeInstanceOf(AmmError);
+      expect(err!.code).toBe(code);
+      expect(err!.message).toBe(AMM_ERROR_MESSAGES[code]);
+    }
+    expect(ammErrorFromCode(210n)).toBeInstanceOf(PoolNotFoundError);
+    expect(describeErrorCode(210)).toBe("Pool does not exist");
+  });
+
+  it("falls back to a generic message for codes outside the catalog", () => {
+    expect(ammErrorFromCode(1)).toBeNull();
+    expect(describeErrorCode(1)).toBe("Transaction failed with error code u1");
+  });
+});
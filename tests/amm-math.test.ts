@@ -0,0 +1,323 @@
+import { Cl } from "@stacks/transactions";
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  AmmMathError,
+  quoteAddLiquidity,
+  quoteRemoveLiquidity,
+  quoteSwap,
+  quoteSwapExactOutput,
+  quoteZap,
+  sqrti,
+} from "../frontend/lib/amm-math";
+
+const accounts = simnet.getAccounts();
+const deployer = accounts.get("deployer")!;
+const alice = accounts.get("wallet_1")!;
+const bob = accounts.get("wallet_2")!;
+
+const mockTokenOne = Cl.contractPrincipal(deployer, "mock-token");
+const mockTokenTwo = Cl.contractPrincipal(deployer, "mock-token-2");
+
+// Deterministic PRNG (mulberry32) so failures are reproducible
+function rng(seed: number) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Large enough that max-input never binds in the randomized swaps
+const inputBalanceLimit = 10n ** 30n;
+
+function randomBigInt(next: () => number, min: bigint, max: bigint) {
+  return min + BigInt(Math.floor(next() * Number(max - min + 1n)));
+}
+
+type Reserves = { liquidity: bigint; balance0: bigint; balance1: bigint };
+
+function poolArgs(fee: bigint) {
+  return [mockTokenOne, mockTokenTwo, Cl.uint(fee)];
+}
+
+function getPoolId(fee: bigint) {
+  return simnet.callReadOnlyFn(
+    "amm",
+    "get-pool-id",
+    [Cl.tuple({ "token-0": mockTokenOne, "token-1": mockTokenTwo, fee: Cl.uint(fee) })],
+    alice
+  ).result;
+}
+
+function expectPoolState(fee: bigint, reserves: Reserves) {
+  const { result } = simnet.callReadOnlyFn("amm", "get-pool-data", [getPoolId(fee)], alice);
+  expect(result).toBeOk(
+    Cl.some(
+      Cl.tuple({
+        "token-0": mockTokenOne,
+        "token-1": mockTokenTwo,
+        fee: Cl.uint(fee),
+        liquidity: Cl.uint(reserves.liquidity),
+        "balance-0": Cl.uint(reserves.balance0),
+        "balance-1": Cl.uint(reserves.balance1),
+      })
+    )
+  );
+}
+
+// Run a quote, returning the AmmMathError instead of throwing it
+function attempt<T>(quote: () => T): T | AmmMathError {
+  try {
+    return quote();
+  } catch (err) {
+    if (err instanceof AmmMathError) return err;
+    throw err;
+  }
+}
+
+function expectContractError(err: AmmMathError, result: unknown) {
+  expect(err.code).not.toBeNull();
+  expect(result).toBeErr(Cl.uint(err.code!));
+}
+
+describe("AMM math mirror", () => {
+  beforeEach(() => {
+    for (const account of [alice, bob]) {
+      for (const token of ["mock-token", "mock-token-2"]) {
+        simnet.callPublicFn(
+          token,
+          "mint",
+          [Cl.uint(1_000_000_000_000_000), Cl.principal(account)],
+          account
+        );
+      }
+    }
+  });
+
+  it("computes integer square roots rounded down", () => {
+    for (const n of [0n, 1n, 2n, 3n, 4n, 15n, 16n, 17n, 10n ** 30n, 10n ** 30n - 1n]) {
+      const root = sqrti(n);
+      expect(root * root <= n).toBe(true);
+      expect((root + 1n) * (root + 1n) > n).toBe(true);
+    }
+  });
+
+  it("matches simnet's errors for an empty pool and a too-small first deposit", () => {
+    const fee = 500n;
+    simnet.callPublicFn("amm", "create-pool", poolArgs(fee), alice);
+    const empty: Reserves = { liquidity: 0n, balance0: 0n, balance1: 0n };
+
+    const removeQuote = attempt(() => quoteRemoveLiquidity(empty, 1000n));
+    expect(removeQuote).toBeInstanceOf(AmmMathError);
+    expectContractError(
+      removeQuote as AmmMathError,
+      simnet.callPublicFn(
+        "amm",
+        "remove-liquidity",
+        [...poolArgs(fee), Cl.uint(1000), Cl.uint(0), Cl.uint(0), Cl.none()],
+        alice
+      ).result
+    );
+
+    const addQuote = attempt(() => quoteAddLiquidity(empty, 1000n, 1000n));
+    expect(addQuote).toBeInstanceOf(AmmMathError);
+    expectContractError(
+      addQuote as AmmMathError,
+      simnet.callPublicFn(
+        "amm",
+        "add-liquidity",
+        [...poolArgs(fee), Cl.uint(1000), Cl.uint(1000), Cl.uint(0), Cl.uint(0), Cl.none()],
+        alice
+      ).result
+    );
+  });
+
+  it("matches simnet for randomized liquidity and swap sequences", () => {
+    const next = rng(0x5eed);
+    const usedFees = new Set<bigint>();
+
+    for (let round = 0; round < 15; round++) {
+      // A fresh fee gives a fresh pool for every round
+      let fee = randomBigInt(next, 0n, 9_999n);
+      while (usedFees.has(fee)) fee = randomBigInt(next, 0n, 9_999n);
+      usedFees.add(fee);
+      expect(
+        simnet.callPublicFn("amm", "set-fee-tier", [Cl.uint(fee), Cl.bool(true)], deployer).result
+      ).toBeOk(Cl.bool(true));
+      expect(simnet.callPublicFn("amm", "create-pool", poolArgs(fee), alice).result).toBeOk(
+        Cl.bool(true)
+      );
+
+      // Some rounds run with the protocol fee off, the rest with a random share of the swap fee
+      const share = next() < 0.3 ? 0n : randomBigInt(next, 0n, 10_000n);
+      expect(
+        simnet.callPublicFn("amm", "set-protocol-fee-share", [Cl.uint(share)], deployer).result
+      ).toBeOk(Cl.bool(true));
+      const protocolFees = { amount0: 0n, amount1: 0n };
+
+      // Initial deposit (sqrt(x*y) must exceed MINIMUM_LIQUIDITY on a first deposit)
+      let reserves: Reserves = { liquidity: 0n, balance0: 0n, balance1: 0n };
+      const initial = quoteAddLiquidity(
+        reserves,
+        randomBigInt(next, 10_000n, 1_000_000_000_000n),
+        randomBigInt(next, 10_000n, 1_000_000_000_000n)
+      );
+      const initialRes = simnet.callPublicFn(
+        "amm",
+        "add-liquidity",
+        [...poolArgs(fee), Cl.uint(initial.amount0), Cl.uint(initial.amount1), Cl.uint(0), Cl.uint(0), Cl.none()],
+        alice
+      );
+      expect(initialRes.result).toBeOk(Cl.bool(true));
+      let aliceLiquidity = initial.liquidityMinted;
+      reserves = {
+        liquidity: initial.poolLiquidityAfter,
+        balance0: initial.amount0,
+        balance1: initial.amount1,
+      };
+      expectPoolState(fee, reserves);
+
+      // Swaps in random directions, including zero inputs that the contract rejects
+      for (let i = 0; i < 4; i++) {
+        const zeroForOne = next() < 0.5;
+        const inputBalance = zeroForOne ? reserves.balance0 : reserves.balance1;
+        const input = next() < 0.1 ? 0n : randomBigInt(next, 1n, inputBalance * 2n);
+        const res = simnet.callPublicFn(
+          "amm",
+          "swap",
+          [...poolArgs(fee), Cl.uint(input), Cl.bool(zeroForOne), Cl.uint(0), Cl.none()],
+          bob
+        );
+        const quote = attempt(() => quoteSwap(reserves, fee, input, zeroForOne, share));
+        if (quote instanceof AmmMathError) {
+          expectContractError(quote, res.result);
+        } else {
+          expect(res.result).toBeOk(Cl.bool(true));
+          expect(BigInt(res.events[1].data.amount)).toBe(quote.outputAmount);
+          protocolFees[zeroForOne ? "amount1" : "amount0"] += quote.protocolFee;
+          reserves = { ...reserves, balance0: quote.balance0After, balance1: quote.balance1After };
+        }
+        expectPoolState(fee, reserves);
+      }
+
+      // Exact-output swaps, including zero and unaffordable outputs
+      for (let i = 0; i < 3; i++) {
+        const zeroForOne = next() < 0.5;
+        const outputBalance = zeroForOne ? reserves.balance1 : reserves.balance0;
+        const output = next() < 0.1 ? 0n : randomBigInt(next, 1n, (outputBalance * 6n) / 5n);
+        const quote = attempt(() => quoteSwapExactOutput(reserves, fee, output, zeroForOne, share));
+        // Outputs close to the whole reserve cost more than bob holds; the token transfer would fail first
+        if (!(quote instanceof AmmMathError) && quote.inputAmount > 10n ** 13n) continue;
+        const res = simnet.callPublicFn(
+          "amm",
+          "swap-exact-output",
+          [
+            ...poolArgs(fee),
+            Cl.uint(output),
+            Cl.bool(zeroForOne),
+            Cl.uint(inputBalanceLimit),
+            Cl.none(),
+          ],
+          bob
+        );
+        if (quote instanceof AmmMathError) {
+          expectContractError(quote, res.result);
+        } else {
+          expect(res.result).toBeOk(Cl.uint(quote.inputAmount));
+          expect(BigInt(res.events[0].data.amount)).toBe(quote.inputAmount);
+          expect(BigInt(res.events[1].data.amount)).toBe(quote.outputAmount);
+          expect(quote.outputAmount >= output).toBe(true);
+          // one unit less input would not have bought the requested output
+          const smaller = attempt(() => quoteSwap(reserves, fee, quote.inputAmount - 1n, zeroForOne));
+          if (!(smaller instanceof AmmMathError)) expect(smaller.outputAmount < output).toBe(true);
+          protocolFees[zeroForOne ? "amount1" : "amount0"] += quote.protocolFee;
+          reserves = { ...reserves, balance0: quote.balance0After, balance1: quote.balance1After };
+        }
+        expectPoolState(fee, reserves);
+      }
+
+      // A second depositor at the current ratio
+      const desired0 = randomBigInt(next, 1n, 1_000_000_000n);
+      const desired1 = randomBigInt(next, 1n, 1_000_000_000n);
+      const addRes = simnet.callPublicFn(
+        "amm",
+        "add-liquidity",
+        [...poolArgs(fee), Cl.uint(desired0), Cl.uint(desired1), Cl.uint(0), Cl.uint(0), Cl.none()],
+        bob
+      );
+      const addQuote = attempt(() => quoteAddLiquidity(reserves, desired0, desired1));
+      if (addQuote instanceof AmmMathError) {
+        expectContractError(addQuote, addRes.result);
+      } else {
+        const quote = addQuote;
+        expect(addRes.result).toBeOk(Cl.bool(true));
+        expect(BigInt(addRes.events[0].data.amount)).toBe(quote.amount0);
+        expect(BigInt(addRes.events[1].data.amount)).toBe(quote.amount1);
+        reserves = {
+          liquidity: quote.poolLiquidityAfter,
+          balance0: reserves.balance0 + quote.amount0,
+          balance1: reserves.balance1 + quote.amount1,
+        };
+      }
+      expectPoolState(fee, reserves);
+
+      // A single-sided zap from either token
+      const zapZeroForOne = next() < 0.5;
+      const zapInput = randomBigInt(next, 1n, 1_000_000_000n);
+      const zapRes = simnet.callPublicFn(
+        "amm",
+        "zap-in",
+        [...poolArgs(fee), Cl.uint(zapInput), Cl.bool(zapZeroForOne), Cl.uint(0), Cl.none()],
+        bob
+      );
+      const zapQuote = attempt(() => quoteZap(reserves, fee, zapInput, zapZeroForOne, share));
+      if (zapQuote instanceof AmmMathError) {
+        expectContractError(zapQuote, zapRes.result);
+      } else {
+        const quote = zapQuote;
+        expect(zapRes.result).toBeOk(Cl.uint(quote.liquidityMinted));
+        expect(BigInt(zapRes.events[0].data.amount)).toBe(quote.swapAmount);
+        expect(BigInt(zapRes.events[3].data.amount)).toBe(quote.amount0);
+        expect(BigInt(zapRes.events[4].data.amount)).toBe(quote.amount1);
+        protocolFees[zapZeroForOne ? "amount1" : "amount0"] += quote.swap.protocolFee;
+        reserves = {
+          liquidity: quote.poolLiquidityAfter,
+          balance0: quote.swap.balance0After + quote.amount0,
+          balance1: quote.swap.balance1After + quote.amount1,
+        };
+      }
+      expectPoolState(fee, reserves);
+
+      // Partial withdrawal, sometimes of a dust amount that pays out nothing
+      const burn = next() < 0.2 ? 1n : randomBigInt(next, 1n, aliceLiquidity);
+      const removeRes = simnet.callPublicFn(
+        "amm",
+        "remove-liquidity",
+        [...poolArgs(fee), Cl.uint(burn), Cl.uint(0), Cl.uint(0), Cl.none()],
+        alice
+      );
+      const removeQuote = attempt(() => quoteRemoveLiquidity(reserves, burn, aliceLiquidity));
+      if (removeQuote instanceof AmmMathError) {
+        expectContractError(removeQuote, removeRes.result);
+      } else {
+        const quote = removeQuote;
+        expect(removeRes.result).toBeOk(Cl.bool(true));
+        expect(BigInt(removeRes.events[0].data.amount)).toBe(quote.amount0);
+        expect(BigInt(removeRes.events[1].data.amount)).toBe(quote.amount1);
+        aliceLiquidity -= burn;
+        reserves = {
+          liquidity: reserves.liquidity - burn,
+          balance0: reserves.balance0 - quote.amount0,
+          balance1: reserves.balance1 - quote.amount1,
+        };
+      }
+      expectPoolState(fee, reserves);
+      expect(
+        simnet.callReadOnlyFn("amm", "get-protocol-fees", [getPoolId(fee)], alice).result
+      ).toStrictEqual(
+        Cl.tuple({ "amount-0": Cl.uint(protocolFees.amount0), "amount-1": Cl.uint(protocolFees.amount1) })
+      );
+    }
+  });
+});
@@ -1,5 +1,12 @@
-import { Cl } from "@stacks/transactions";
+import { Cl, ResponseOkCV, SomeCV, TupleCV, UIntCV } from "@stacks/transactions";
 import { beforeEach, describe, expect, it } from "vitest";
+import {
+  computeTwap,
+  PRICE_PRECISION,
+  PriceObservation,
+  quoteRemoveLiquidity,
+  quoteZap,
+} from "../frontend/lib/amm-math";
 
 const accounts = simnet.getAccounts();
 const deployer = accounts.get("deployer")!;
@@ -10,6 +17,10 @@ const charlie = accounts.get("wallet_3")!;
 const mockTokenOne = Cl.contractPrincipal(deployer, "mock-token");
 const mockTokenTwo = Cl.contractPrincipal(deployer, "mock-token-2");
 
+function deadlineCV(deadline?: number) {
+  return deadline === undefined ? Cl.none() : Cl.some(Cl.uint(deadline));
+}
+
 function createPool() {
   return simnet.callPublicFn(
     "amm",
@@ -19,7 +30,14 @@ function createPool() {
   );
 }
 
-function addLiquidity(account: string, amount0: number, amount1: number) {
+function addLiquidity(
+  account: string,
+  amount0: number | bigint,
+  amount1: number | bigint,
+  amount0Min = 0,
+  amount1Min = 0,
+  deadline?: number
+) {
   return simnet.callPublicFn(
     "amm",
     "add-liquidity",
@@ -29,23 +47,44 @@ function addLiquidity(account: string, amount0: number, amount1: number) {
       Cl.uint(500),
       Cl.uint(amount0),
       Cl.uint(amount1),
-      Cl.uint(0),
-      Cl.uint(0),
+      Cl.uint(amount0Min),
+      Cl.uint(amount1Min),
+      deadlineCV(deadline),
     ],
     account
   );
 }
 
-function removeLiquidity(account: string, liquidity: number) {
+function removeLiquidity(
+  account: string,
+  liquidity: number | bigint,
+  amount0Min = 0,
+  amount1Min = 0,
+  deadline?: number
+) {
   return simnet.callPublicFn(
     "amm",
     "remove-liquidity",
-    [mockTokenOne, mockTokenTwo, Cl.uint(500), Cl.uint(liquidity)],
+    [
+      mockTokenOne,
+      mockTokenTwo,
+      Cl.uint(500),
+      Cl.uint(liquidity),
+      Cl.uint(amount0Min),
+      Cl.uint(amount1Min),
+      deadlineCV(deadline),
+    ],
     account
   );
 }
 
-function swap(account: string, inputAmount: number, zeroForOne: boolean) {
+function swap(
+  account: string,
+  inputAmount: number,
+  zeroForOne: boolean,
+  minOutput = 0,
+  deadline?: number
+) {
   return simnet.callPublicFn(
     "amm",
     "swap",
@@ -55,6 +94,31 @@ function swap(account: string, inputAmount: number, zeroForOne: boolean) {
       Cl.uint(500),
       Cl.uint(inputAmount),
       Cl.bool(zeroForOne),
+      Cl.uint(minOutput),
+      deadlineCV(deadline),
+    ],
+    account
+  );
+}
+
+function zapIn(
+  account: string,
+  inputAmount: number,
+  zeroForOne: boolean,
+  minLiquidity = 0,
+  deadline?: number
+) {
+  return simnet.callPublicFn(
+    "amm",
+    "zap-in",
+    [
+      mockTokenOne,
+      mockTokenTwo,
+      Cl.uint(500),
+      Cl.uint(inputAmount),
+      Cl.bool(zeroForOne),
+      Cl.uint(minLiquidity),
+      deadlineCV(deadline),
     ],
     account
   );
@@ -74,6 +138,114 @@ function getPoolId() {
     alice // this is a read-only function so user address doesn't matter
   );
 }
+
+function transferPosition(
+  caller: string,
+  amount: number,
+  sender: string,
+  recipient: string,
+  memo?: Uint8Array
+) {
+  return simnet.callPublicFn(
+    "amm",
+    "transfer-position",
+    [
+      getPoolId().result,
+      Cl.uint(amount),
+      Cl.principal(sender),
+      Cl.principal(recipient),
+      memo ? Cl.some(Cl.buffer(memo)) : Cl.none(),
+    ],
+    caller
+  );
+}
+
+function positionLiquidity(owner: string) {
+  return simnet.callReadOnlyFn(
+    "amm",
+    "get-position-liquidity",
+    [getPoolId().result, Cl.principal(owner)],
+    owner
+  ).result;
+}
+
+function setProtocolFeeShare(account: string, share: number) {
+  return simnet.callPublicFn("amm", "set-protocol-fee-share", [Cl.uint(share)], account);
+}
+
+function collectProtocolFees(account: string, recipient: string) {
+  return simnet.callPublicFn(
+    "amm",
+    "collect-protocol-fees",
+    [mockTokenOne, mockTokenTwo, Cl.uint(500), Cl.principal(recipient)],
+    account
+  );
+}
+
+function setPaused(account: string, paused: boolean) {
+  return simnet.callPublicFn("amm", "set-paused", [Cl.bool(paused)], account);
+}
+
+function setPoolPaused(account: string, paused: boolean) {
+  return simnet.callPublicFn("amm", "set-pool-paused", [getPoolId().result, Cl.bool(paused)], account);
+}
+
+function pauseState() {
+  return simnet.callReadOnlyFn("amm", "get-pause-state", [getPoolId().result], alice).result;
+}
+
+function getTwap(window: number) {
+  return simnet.callReadOnlyFn("amm", "get-twap", [getPoolId().result, Cl.uint(window)], alice)
+    .result;
+}
+
+function twapPrice0(window: number) {
+  const twap = getTwap(window) as ResponseOkCV<TupleCV<{ "price-0": UIntCV }>>;
+  return BigInt(twap.value.value["price-0"].value);
+}
+
+function priceObservation(): PriceObservation {
+  const { result } = simnet.callReadOnlyFn(
+    "amm",
+    "get-price-cumulatives",
+    [getPoolId().result],
+    alice
+  );
+  const observation = (
+    result as ResponseOkCV<
+      TupleCV<{ "price-0-cumulative": UIntCV; "price-1-cumulative": UIntCV; block: UIntCV }>
+    >
+  ).value.value;
+  return {
+    price0Cumulative: BigInt(observation["price-0-cumulative"].value),
+    price1Cumulative: BigInt(observation["price-1-cumulative"].value),
+    block: BigInt(observation.block.value),
+  };
+}
+
+function swapExactOutput(
+  account: string,
+  outputAmount: number,
+  zeroForOne: boolean,
+  maxInput: number,
+  deadline?: number
+) {
+  return simnet.callPublicFn(
+    "amm",
+    "swap-exact-output",
+    [
+      mockTokenOne,
+      mockTokenTwo,
+      Cl.uint(500),
+      Cl.uint(outputAmount),
+      Cl.bool(zeroForOne),
+      Cl.uint(maxInput),
+      deadlineCV(deadline),
+    ],
+    account
+  );
+}
+
 describe("AMM Tests", () => {
   beforeEach(() => {
     const allAccounts = [alice, bob, charlie];
@@ -124,6 +296,14 @@ describe("AMM Tests", () => {
     expect(addLiqRes.events.length).toBe(3);
   });
 
+  it("rejects a first deposit that doesn't exceed the minimum liquidity", () => {
+    createPool();
+
+    // sqrt(1000 * 1000) = MINIMUM_LIQUIDITY, which would leave nothing for the depositor
+    expect(addLiquidity(alice, 1000, 1000).result).toBeErr(Cl.uint(228));
+    expect(addLiquidity(alice, 1001, 1001).result).toBeOk(Cl.bool(true));
+  });
+
   it("requires n+1 add liquidity calls to maintain ratio", () => {
     const createPoolRes = createPool();
     expect(createPoolRes.result).toBeOk(Cl.bool(true));
@@ -175,6 +355,24 @@ describe("AMM Tests", () => {
     expect(events[1].data.amount).toBe("43183");
   });
 
+  it("prints the direction, output and fees of a swap", () => {
+    createPool();
+    addLiquidity(alice, 1000000, 500000);
+
+    const { events } = swap(bob, 100000, true);
+    expect(events[2].data.value).toStrictEqual(
+      Cl.tuple({
+        action: Cl.stringAscii("swap"),
+        "pool-id": getPoolId().result,
+        sender: Cl.principal(bob),
+        "zero-for-one": Cl.bool(true),
+        "input-amount": Cl.uint(100000),
+        "output-amount": Cl.uint(43183),
+        fees: Cl.uint(2272),
+      })
+    );
+  });
+
   it("should distribute fees earned amongst LPs", () => {
     createPool();
     addLiquidity(alice, 1000000, 500000);
@@ -196,4 +394,811 @@ describe("AMM Tests", () => {
     );
     expect(tokenTwoAmountWithdrawn).toBeLessThan(withdrawableTokenTwoPreSwap);
   });
-});
\ No newline at end of file
+
+  it("reverts a swap when the price moves past the minimum output", () => {
+    createPool();
+    addLiquidity(alice, 1000000, 500000);
+
+    // alice quotes 43183 token-2 for 100000 token-1 and accepts 1% slippage
+    const minOutput = Math.floor((43183 * 99) / 100);
+
+    // bob's trade lands first and moves the price against alice
+    expect(swap(bob, 100000, true).result).toBeOk(Cl.bool(true));
+
+    const { result, events } = swap(alice, 100000, true, minOutput);
+    expect(result).toBeErr(Cl.uint(209));
+    expect(events.length).toBe(0);
+  });
+
+  it("executes a swap within the slippage tolerance", () => {
+    createPool();
+    addLiquidity(alice, 1000000, 500000);
+
+    const { result, events } = swap(alice, 100000, true, 43183);
+    expect(result).toBeOk(Cl.bool(true));
+    expect(events[1].data.amount).toBe("43183");
+  });
+
+  it("reverts remove-liquidity when a withdrawn amount is below its minimum", () => {
+    createPool();
+    addLiquidity(alice, 1000000, 500000);
+
+    // quoted withdrawal is 998585 token-1 / 499292 token-2; a swap then drains token-2
+    swap(bob, 200000, true);
+
+    const { result } = removeLiquidity(alice, 706106, 998585, 499292);
+    expect(result).toBeErr(Cl.uint(207));
+
+    const { result: withinTolerance } = removeLiquidity(alice, 706106, 998585, 0);
+    expect(withinTolerance).toBeOk(Cl.bool(true));
+  });
+
+  it("reverts add-liquidity when the pool ratio moved past the minimums", () => {
+    createPool();
+    addLiquidity(alice, 1000000, 500000);
+
+    // bob quotes 100000 / 50000 at the current 2:1 ratio with 1% tolerance, but a swap
+    // makes token-2 scarcer first, so 100000 token-1 now matches less than 49500 token-2
+    swap(alice, 300000, true);
+
+    const { result } = addLiquidity(bob, 100000, 50000, 99000, 49500);
+    expect(result).toBeErr(Cl.uint(207));
+  });
+
+  it("executes swaps and liquidity changes before their deadline", () => {
+    createPool();
+    const deadline = simnet.blockHeight + 10;
+
+    expect(addLiquidity(alice, 1000000, 500000, 0, 0, deadline).result).toBeOk(Cl.bool(true));
+    expect(swap(alice, 100000, true, 0, deadline).result).toBeOk(Cl.bool(true));
+    expect(removeLiquidity(alice, 1000, 0, 0, deadline).result).toBeOk(Cl.bool(true));
+  });
+
+  it("reverts swaps and liquidity changes mined after their deadline", () => {
+    createPool();
+    addLiquidity(alice, 1000000, 500000);
+    const deadline = simnet.blockHeight + 2;
+    simnet.mineEmptyBlocks(5);
+
+    expect(addLiquidity(alice, 1000000, 500000, 0, 0, deadline).result).toBeErr(Cl.uint(212));
+    expect(swap(alice, 100000, true, 0, deadline).result).toBeErr(Cl.uint(212));
+    expect(removeLiquidity(alice, 1000, 0, 0, deadline).result).toBeErr(Cl.uint(212));
+  });
+
+  it("swaps the smallest input for an exact output", () => {
+    createPool();
+    addLiquidity(alice, 1000000, 500000);
+
+    const { result: quote } = simnet.callReadOnlyFn(
+      "amm",
+      "get-swap-input-amount",
+      [mockTokenOne, mockTokenTwo, Cl.uint(500), Cl.uint(40000), Cl.bool(true)],
+      bob
+    );
+    expect(quote).toBeOk(Cl.uint(91952));
+
+    const { result, events } = swapExactOutput(bob, 40000, true, 91952);
+    expect(result).toBeOk(Cl.uint(91952));
+    expect(events[0].event).toBe("ft_transfer_event");
+    expect(events[0].data.amount).toBe("91952");
+    expect(events[1].event).toBe("ft_transfer_event");
+    expect(events[1].data.amount).toBe("40000");
+  });
+
+  it("reverts an exact-output swap that needs more than the maximum input", () => {
+    createPool();
+    addLiquidity(alice, 1000000, 500000);
+
+    const { result, events } = swapExactOutput(bob, 40000, true, 91951);
+    expect(result).toBeErr(Cl.uint(213));
+    expect(events.length).toBe(0);
+  });
+
+  it("rejects exact-output swaps for nothing or for the whole reserve", () => {
+    createPool();
+    addLiquidity(alice, 1000000, 500000);
+
+    expect(swapExactOutput(bob, 0, true, 1000000).result).toBeErr(Cl.uint(214));
+    expect(swapExactOutput(bob, 500000, true, 1000000000).result).toBeErr(Cl.uint(206));
+  });
+
+  it("reverts an exact-output swap mined after its deadline", () => {
+    createPool();
+    addLiquidity(alice, 1000000, 500000);
+    const deadline = simnet.blockHeight + 1;
+    simnet.mineEmptyBlocks(3);
+
+    expect(swapExactOutput(bob, 40000, true, 1000000, deadline).result).toBeErr(Cl.uint(212));
+  });
+
+  it("zaps a single token into a position at the post-swap ratio", () => {
+    createPool();
+    addLiquidity(alice, 1000000, 500000);
+    const quote = quoteZap({ liquidity: 707106n, balance0: 1000000n, balance1: 500000n }, 500n, 100000n, true);
+
+    const { result, events } = zapIn(bob, 100000, true);
+    expect(result).toBeOk(Cl.uint(quote.liquidityMinted));
+    expect(positionLiquidity(bob)).toBeOk(Cl.uint(quote.liquidityMinted));
+
+    // swap in, swap out, swap event, then both deposit transfers and the add-liquidity and zap events
+    expect(events[0].data.amount).toBe(quote.swapAmount.toString());
+    expect(events[3].data.amount).toBe(quote.amount0.toString());
+    expect(events[4].data.amount).toBe(quote.amount1.toString());
+    // only rounding dust of the input is left undeposited
+    expect(quote.swapAmount + quote.amount0 + quote.leftover0).toBe(100000n);
+    expect(quote.leftover0 + quote.leftover1).toBeLessThanOrEqual(10n);
+  });
+
+  it("zaps the other token into the pool", () => {
+    createPool();
+    addLiquidity(alice, 1000000, 500000);
+    const quote = quoteZap({ liquidity: 707106n, balance0: 1000000n, balance1: 500000n }, 500n, 40000n, false);
+
+    expect(zapIn(bob, 40000, false).result).toBeOk(Cl.uint(quote.liquidityMinted));
+  });
+
+  it("reverts a zap that mints less than the minimum liquidity or misses its deadline", () => {
+    createPool();
+    addLiquidity(alice, 1000000, 500000);
+    const quote = quoteZap({ liquidity: 707106n, balance0: 1000000n, balance1: 500000n }, 500n, 100000n, true);
+
+    // a swap lands first and moves the price, so the zap mints less than quoted
+    swap(charlie, 200000, true);
+    const { result, events } = zapIn(bob, 100000, true, Number(quote.liquidityMinted));
+    expect(result).toBeErr(Cl.uint(224));
+    expect(events.length).toBe(0);
+
+    const deadline = simnet.blockHeight + 1;
+    simnet.mineEmptyBlocks(3);
+    expect(zapIn(bob, 100000, true, 0, deadline).result).toBeErr(Cl.uint(212));
+  });
+
+  it("can't remove liquidity from a pool that was never funded", () => {
+    createPool();
+    expect(removeLiquidity(alice, 1000).result).toBeErr(Cl.uint(229));
+  });
+
+  it("can't zap into a pool without liquidity", () => {
+    expect(zapIn(bob, 100000, true).result).toBeErr(Cl.uint(210));
+    createPool();
+    expect(zapIn(bob, 100000, true).result).toBeErr(Cl.uint(206));
+  });
+
+  it("keeps positions above 2^53 exact", () => {
+    createPool();
+    const deposit = 2n ** 62n + 1700n;
+    for (const token of ["mock-token", "mock-token-2"]) {
+      simnet.callPublicFn(token, "mint", [Cl.uint(deposit), Cl.principal(alice)], alice);
+    }
+    expect(addLiquidity(alice, deposit, deposit).result).toBeOk(Cl.bool(true));
+
+    // sqrt(deposit * deposit) less MINIMUM_LIQUIDITY, which Number() rounds up past what alice owns
+    const liquidity = deposit - 1000n;
+    expect(positionLiquidity(alice)).toBeOk(Cl.uint(liquidity));
+    expect(BigInt(Number(liquidity))).toBeGreaterThan(liquidity);
+    expect(removeLiquidity(alice, BigInt(Number(liquidity))).result).toBeErr(Cl.uint(203));
+
+    const quote = quoteRemoveLiquidity(
+      { liquidity: deposit, balance0: deposit, balance1: deposit },
+      liquidity,
+      liquidity
+    );
+    const { result, events } = removeLiquidity(alice, liquidity);
+    expect(result).toBeOk(Cl.bool(true));
+    expect(events[0].data.amount).toBe(quote.amount0.toString());
+    expect(events[1].data.amount).toBe(quote.amount1.toString());
+    expect(positionLiquidity(alice)).toBeOk(Cl.uint(0));
+  });
+
+  it("returns ERR_POOL_NOT_FOUND for operations on a pool that doesn't exist", () => {
+    expect(addLiquidity(alice, 1000000, 500000).result).toBeErr(Cl.uint(210));
+    expect(removeLiquidity(alice, 1000).result).toBeErr(Cl.uint(210));
+    expect(swap(alice, 100000, true).result).toBeErr(Cl.uint(210));
+    expect(transferPosition(alice, 1000, alice, bob).result).toBeErr(Cl.uint(210));
+  });
+
+  it("transfers liquidity that the recipient can then remove", () => {
+    createPool();
+    addLiquidity(alice, 1000000, 500000);
+
+    const { result, events } = transferPosition(alice, 300000, alice, bob);
+    expect(result).toBeOk(Cl.bool(true));
+    expect(events[0].data.value).toStrictEqual(
+      Cl.tuple({
+        action: Cl.stringAscii("transfer-position"),
+        "pool-id": getPoolId().result,
+        sender: Cl.principal(alice),
+        recipient: Cl.principal(bob),
+        amount: Cl.uint(300000),
+      })
+    );
+    expect(positionLiquidity(alice)).toBeOk(Cl.uint(406106));
+    expect(positionLiquidity(bob)).toBeOk(Cl.uint(300000));
+
+    expect(removeLiquidity(bob, 300001).result).toBeErr(Cl.uint(203));
+    expect(removeLiquidity(bob, 300000).result).toBeOk(Cl.bool(true));
+    expect(removeLiquidity(alice, 406106).result).toBeOk(Cl.bool(true));
+  });
+
+  it("prints the memo of a position transfer", () => {
+    createPool();
+    addLiquidity(alice, 1000000, 500000);
+
+    const memo = new TextEncoder().encode("collateral");
+    const { events } = transferPosition(alice, 1000, alice, bob, memo);
+    expect(events.length).toBe(2);
+    expect(events[1].data.value).toStrictEqual(Cl.buffer(memo));
+  });
+
+  it("rejects unauthorized, empty, self and oversized position transfers", () => {
+    createPool();
+    addLiquidity(alice, 1000000, 500000);
+
+    expect(transferPosition(bob, 1000, alice, bob).result).toBeErr(Cl.uint(215));
+    expect(transferPosition(alice, 0, alice, bob).result).toBeErr(Cl.uint(216));
+    expect(transferPosition(alice, 1000, alice, alice).result).toBeErr(Cl.uint(217));
+    expect(transferPosition(alice, 706107, alice, bob).result).toBeErr(Cl.uint(203));
+    expect(positionLiquidity(alice)).toBeOk(Cl.uint(706106));
+  });
+
+  it("averages prices so a single-block manipulation barely moves the TWAP", () => {
+    createPool();
+    addLiquidity(alice, 1000000, 500000);
+    simnet.mineEmptyBlocks(100);
+
+    // token-0 has been worth 0.5 token-2 for the whole window
+    const spot = PRICE_PRECISION / 2n;
+    expect(getTwap(50)).toBeOk(
+      Cl.tuple({ "price-0": Cl.uint(spot), "price-1": Cl.uint(PRICE_PRECISION * 2n) })
+    );
+
+    // bob dumps token-0 and crashes its spot price to under a fifth for one block
+    swap(bob, 1000000, true);
+    const { result: poolData } = simnet.callReadOnlyFn(
+      "amm",
+      "get-pool-data",
+      [getPoolId().result],
+      alice
+    );
+    expect(poolData).toBeOk(
+      Cl.some(
+        Cl.tuple({
+          "token-0": mockTokenOne,
+          "token-1": mockTokenTwo,
+          fee: Cl.uint(500),
+          liquidity: Cl.uint(707106),
+          "balance-0": Cl.uint(2000000),
+          "balance-1": Cl.uint(262500),
+        })
+      )
+    );
+
+    // only closed blocks count, so the manipulation block itself doesn't move the average yet
+    expect(twapPrice0(100)).toBe(spot);
+
+    // after the manipulated price stands for a whole block, the 100-block average moves by less than 1%
+    simnet.mineEmptyBlocks(1);
+    const twap = twapPrice0(100);
+    expect(twap).toBeLessThan(spot);
+    expect(twap).toBeGreaterThan((spot * 99n) / 100n);
+  });
+
+  it("rejects TWAP windows that are empty or start before the pool existed", () => {
+    createPool();
+    addLiquidity(alice, 1000000, 500000);
+    simnet.mineEmptyBlocks(5);
+
+    expect(getTwap(0)).toBeErr(Cl.uint(220));
+    expect(getTwap(simnet.blockHeight + 1)).toBeErr(Cl.uint(220));
+    expect(getTwap(simnet.blockHeight - 1)).toBeErr(Cl.uint(210));
+  });
+
+  it("computes the same TWAP from two observations in TypeScript", () => {
+    createPool();
+    addLiquidity(alice, 1000000, 500000);
+    simnet.mineEmptyBlocks(3);
+
+    const older = priceObservation();
+    swap(bob, 100000, true);
+    simnet.mineEmptyBlocks(4);
+    swap(bob, 50000, false);
+    simnet.mineEmptyBlocks(2);
+    const newer = priceObservation();
+
+    const twap = computeTwap(older, newer);
+    expect(getTwap(Number(newer.block - older.block))).toBeOk(
+      Cl.tuple({ "price-0": Cl.uint(twap.price0), "price-1": Cl.uint(twap.price1) })
+    );
+  });
+
+  it("only creates pools with an enabled fee tier", () => {
+    const createWithFee = (fee: number) =>
+      simnet.callPublicFn("amm", "create-pool", [mockTokenOne, mockTokenTwo, Cl.uint(fee)], alice)
+        .result;
+    const setFeeTier = (account: string, fee: number, enabled: boolean) =>
+      simnet.callPublicFn("amm", "set-fee-tier", [Cl.uint(fee), Cl.bool(enabled)], account).result;
+
+    // a fee of FEES_DENOM or more would take the whole swap output
+    expect(createWithFee(10000)).toBeErr(Cl.uint(223));
+    expect(createWithFee(250)).toBeErr(Cl.uint(223));
+    expect(setFeeTier(deployer, 10000, true)).toBeErr(Cl.uint(221));
+    expect(setFeeTier(alice, 250, true)).toBeErr(Cl.uint(218));
+
+    expect(setFeeTier(deployer, 250, true)).toBeOk(Cl.bool(true));
+    expect(createWithFee(250)).toBeOk(Cl.bool(true));
+
+    // disabling a tier stops new pools but keeps it listed for discovery
+    expect(setFeeTier(deployer, 100, false)).toBeOk(Cl.bool(true));
+    expect(createWithFee(100)).toBeErr(Cl.uint(223));
+    expect(simnet.callReadOnlyFn("amm", "get-fee-tiers", [], alice).result).toBeOk(
+      Cl.list(
+        [
+          [30, true],
+          [100, false],
+          [500, true],
+          [250, true],
+        ].map(([fee, enabled]) =>
+          Cl.tuple({ fee: Cl.uint(fee as number), enabled: Cl.bool(enabled as boolean) })
+        )
+      )
+    );
+  });
+
+  it("restricts admin functions to the contract owner", () => {
+    expect(simnet.callReadOnlyFn("amm", "get-contract-owner", [], alice).result).toBeOk(
+      Cl.principal(deployer)
+    );
+    expect(setProtocolFeeShare(alice, 1000).result).toBeErr(Cl.uint(218));
+    expect(collectProtocolFees(alice, alice).result).toBeErr(Cl.uint(218));
+    expect(setProtocolFeeShare(deployer, 10001).result).toBeErr(Cl.uint(219));
+
+    // ownership moves to alice and away from the deployer
+    expect(
+      simnet.callPublicFn("amm", "set-contract-owner", [Cl.principal(alice)], deployer).result
+    ).toBeOk(Cl.bool(true));
+    expect(setProtocolFeeShare(deployer, 1000).result).toBeErr(Cl.uint(218));
+    expect(setProtocolFeeShare(alice, 1000).result).toBeOk(Cl.bool(true));
+    expect(simnet.callReadOnlyFn("amm", "get-protocol-fee-share", [], alice).result).toBeOk(
+      Cl.uint(1000)
+    );
+  });
+
+  it("accrues a share of swap fees to the protocol and lets the owner collect it", () => {
+    createPool();
+    addLiquidity(alice, 1000000, 500000);
+    expect(setProtocolFeeShare(deployer, 5000).result).toBeOk(Cl.bool(true));
+
+    // 45455 gross output, 2272 in fees, half of which leaves the pool for the protocol
+    const { events } = swap(bob, 100000, true);
+    expect(events[1].data.amount).toBe("43183");
+    expect(
+      simnet.callReadOnlyFn("amm", "get-pool-data", [getPoolId().result], alice).result
+    ).toBeOk(
+      Cl.some(
+        Cl.tuple({
+          "token-0": mockTokenOne,
+          "token-1": mockTokenTwo,
+          fee: Cl.uint(500),
+          liquidity: Cl.uint(707106),
+          "balance-0": Cl.uint(1100000),
+          "balance-1": Cl.uint(500000 - 43183 - 1136),
+        })
+      )
+    );
+    expect(
+      simnet.callReadOnlyFn("amm", "get-protocol-fees", [getPoolId().result], alice).result
+    ).toStrictEqual(Cl.tuple({ "amount-0": Cl.uint(0), "amount-1": Cl.uint(1136) }));
+
+    const collected = collectProtocolFees(deployer, charlie);
+    expect(collected.result).toBeOk(Cl.tuple({ "amount-0": Cl.uint(0), "amount-1": Cl.uint(1136) }));
+    expect(collected.events[0].data.recipient).toBe(charlie);
+    expect(collected.events[0].data.amount).toBe("1136");
+    expect(
+      simnet.callReadOnlyFn("amm", "get-protocol-fees", [getPoolId().result], alice).result
+    ).toStrictEqual(Cl.tuple({ "amount-0": Cl.uint(0), "amount-1": Cl.uint(0) }));
+
+    // the LPs still withdraw everything left in the pool
+    const { result } = removeLiquidity(alice, 706106);
+    expect(result).toBeOk(Cl.bool(true));
+  });
+
+  it("restricts pausing to the guardian, which the owner can replace", () => {
+    createPool();
+    expect(simnet.callReadOnlyFn("amm", "get-guardian", [], alice).result).toBeOk(
+      Cl.principal(deployer)
+    );
+    expect(setPaused(alice, true).result).toBeErr(Cl.uint(226));
+    expect(setPoolPaused(alice, true).result).toBeErr(Cl.uint(226));
+
+    // only the owner hands the role over
+    expect(
+      simnet.callPublicFn("amm", "set-guardian", [Cl.principal(bob)], alice).result
+    ).toBeErr(Cl.uint(218));
+    const { result, events } = simnet.callPublicFn(
+      "amm",
+      "set-guardian",
+      [Cl.principal(bob)],
+      deployer
+    );
+    expect(result).toBeOk(Cl.bool(true));
+    expect(events[0].data.value).toStrictEqual(
+      Cl.tuple({ action: Cl.stringAscii("set-guardian"), guardian: Cl.principal(bob) })
+    );
+    expect(setPaused(deployer, true).result).toBeErr(Cl.uint(226));
+    expect(setPaused(bob, true).result).toBeOk(Cl.bool(true));
+    expect(
+      simnet.callPublicFn("amm", "set-pool-paused", [Cl.bufferFromHex("00"), Cl.bool(true)], bob).result
+    ).toBeErr(Cl.uint(210));
+  });
+
+  it("pauses swaps and deposits on one pool but keeps withdrawals open", () => {
+    createPool();
+    addLiquidity(alice, 1000000, 500000);
+
+    const paused = setPoolPaused(deployer, true);
+    expect(paused.result).toBeOk(Cl.bool(true));
+    expect(paused.events[0].data.value).toStrictEqual(
+      Cl.tuple({
+        action: Cl.stringAscii("set-pool-paused"),
+        "pool-id": getPoolId().result,
+        paused: Cl.bool(true),
+      })
+    );
+    expect(pauseState()).toStrictEqual(Cl.tuple({ global: Cl.bool(false), pool: Cl.bool(true) }));
+
+    expect(swap(bob, 100000, true).result).toBeErr(Cl.uint(227));
+    expect(swapExactOutput(bob, 1000, true, 10000).result).toBeErr(Cl.uint(227));
+    expect(addLiquidity(bob, 10000, 5000).result).toBeErr(Cl.uint(227));
+    expect(zapIn(bob, 10000, true).result).toBeErr(Cl.uint(227));
+    expect(removeLiquidity(alice, 1000).result).toBeOk(Cl.bool(true));
+    expect(transferPosition(alice, 1000, alice, bob).result).toBeOk(Cl.bool(true));
+
+    expect(setPoolPaused(deployer, false).result).toBeOk(Cl.bool(true));
+    expect(pauseState()).toStrictEqual(Cl.tuple({ global: Cl.bool(false), pool: Cl.bool(false) }));
+    expect(swap(bob, 100000, true).result).toBeOk(Cl.bool(true));
+  });
+
+  it("pauses swaps and deposits on every pool at once", () => {
+    createPool();
+    addLiquidity(alice, 1000000, 500000);
+
+    const paused = setPaused(deployer, true);
+    expect(paused.events[0].data.value).toStrictEqual(
+      Cl.tuple({ action: Cl.stringAscii("set-paused"), paused: Cl.bool(true) })
+    );
+    expect(pauseState()).toStrictEqual(Cl.tuple({ global: Cl.bool(true), pool: Cl.bool(false) }));
+    expect(simnet.callReadOnlyFn("amm", "is-paused", [], alice).result).toBeOk(Cl.bool(true));
+    expect(swap(bob, 100000, true).result).toBeErr(Cl.uint(227));
+    expect(addLiquidity(bob, 10000, 5000).result).toBeErr(Cl.uint(227));
+    expect(removeLiquidity(alice, 1000).result).toBeOk(Cl.bool(true));
+
+    expect(setPaused(deployer, false).result).toBeOk(Cl.bool(true));
+    expect(addLiquidity(bob, 10000, 5000).result).toBeOk(Cl.bool(true));
+  });
+});
+const mockTokenThree = Cl.contractPrincipal(deployer, "mock-token-3");
+const mockTokenFour = Cl.contractPrincipal(deployer, "mock-token-4");
+
+// Tokens sort as mock-token < mock-token-2 < mock-token-3 < mock-token-4,
+// so each consecutive pair below is already in pool order
+function createPoolFor(token0: typeof mockTokenOne, token1: typeof mockTokenOne) {
+  return simnet.callPublicFn(
+    "amm",
+    "create-pool",
+    [token0, token1, Cl.uint(500)],
+    alice
+  );
+}
+
+function addLiquidityFor(
+  token0: typeof mockTokenOne,
+  token1: typeof mockTokenOne,
+  amount0: number,
+  amount1: number
+) {
+  return simnet.callPublicFn(
+    "amm",
+    "add-liquidity",
+    [
+      token0,
+      token1,
+      Cl.uint(500),
+      Cl.uint(amount0),
+      Cl.uint(amount1),
+      Cl.uint(0),
+      Cl.uint(0),
+      Cl.none(),
+    ],
+    alice
+  );
+}
+
+describe("Multi-hop swaps", () => {
+  beforeEach(() => {
+    for (const token of ["mock-token", "mock-token-2", "mock-token-3", "mock-token-4"]) {
+      for (const account of [alice, bob]) {
+        simnet.callPublicFn(
+          token,
+          "mint",
+          [Cl.uint(1_000_000_000), Cl.principal(account)],
+          account
+        );
+      }
+    }
+
+    createPoolFor(mockTokenOne, mockTokenTwo);
+    createPoolFor(mockTokenTwo, mockTokenThree);
+    createPoolFor(mockTokenThree, mockTokenFour);
+    addLiquidityFor(mockTokenOne, mockTokenTwo, 1000000, 500000);
+    addLiquidityFor(mockTokenTwo, mockTokenThree, 500000, 2000000);
+    addLiquidityFor(mockTokenThree, mockTokenFour, 1000000, 1000000);
+  });
+
+  it("swaps through two pools and returns the final output", () => {
+    const { result, events } = simnet.callPublicFn(
+      "amm",
+      "swap-2-hop",
+      [
+        mockTokenOne,
+        mockTokenTwo,
+        mockTokenThree,
+        Cl.uint(500),
+        Cl.uint(500),
+        Cl.uint(100000),
+        Cl.uint(1),
+        Cl.none(),
+      ],
+      bob
+    );
+
+    // each hop emits two transfers and a print; hop 1 pays out 43183 token-2
+    // (same as the single-pool swap test) which hop 2 then spends in full
+    expect(events[1].data.amount).toBe("43183");
+    expect(events[3].data.amount).toBe("43183");
+    expect(result).toBeOk(Cl.uint(BigInt(events[4].data.amount)));
+  });
+
+  it("routes against pool token order", () => {
+    const { result, events } = simnet.callPublicFn(
+      "amm",
+      "swap-2-hop",
+      [
+        mockTokenThree,
+        mockTokenTwo,
+        mockTokenOne,
+        Cl.uint(500),
+        Cl.uint(500),
+        Cl.uint(100000),
+        Cl.uint(1),
+        Cl.none(),
+      ],
+      bob
+    );
+
+    expect(result).toBeOk(Cl.uint(BigInt(events[4].data.amount)));
+    expect(events[4].data.asset_identifier).toContain("mock-token::");
+  });
+
+  it("swaps through three pools", () => {
+    const { result, events } = simnet.callPublicFn(
+      "amm",
+      "swap-3-hop",
+      [
+        mockTokenOne,
+        mockTokenTwo,
+        mockTokenThree,
+        mockTokenFour,
+        Cl.uint(500),
+        Cl.uint(500),
+        Cl.uint(500),
+        Cl.uint(100000),
+        Cl.uint(1),
+        Cl.none(),
+      ],
+      bob
+    );
+
+    expect(result).toBeOk(Cl.uint(BigInt(events[7].data.amount)));
+    expect(events[7].data.asset_identifier).toContain("mock-token-4::");
+  });
+
+  it("reverts the whole route when the output is below the minimum", () => {
+    const { result: quote } = simnet.callPublicFn(
+      "amm",
+      "swap-2-hop",
+      [
+        mockTokenOne,
+        mockTokenTwo,
+        mockTokenThree,
+        Cl.uint(500),
+        Cl.uint(500),
+        Cl.uint(100000),
+        Cl.uint(1),
+        Cl.none(),
+      ],
+      bob
+    );
+    expect(quote).toBeOk(expect.anything());
+
+    // the first swap moved the price, so the same trade now pays out less than before
+    const expected = (quote as ResponseOkCV<UIntCV>).value.value;
+    const { result, events } = simnet.callPublicFn(
+      "amm",
+      "swap-2-hop",
+      [
+        mockTokenOne,
+        mockTokenTwo,
+        mockTokenThree,
+        Cl.uint(500),
+        Cl.uint(500),
+        Cl.uint(100000),
+        Cl.uint(expected),
+        Cl.none(),
+      ],
+      bob
+    );
+    expect(result).toBeErr(Cl.uint(209));
+    expect(events.length).toBe(0);
+  });
+
+  it("returns ERR_POOL_NOT_FOUND when a hop has no pool", () => {
+    // the token-2/token-3 pool only exists with a 0.5% fee
+    const { result, events } = simnet.callPublicFn(
+      "amm",
+      "swap-2-hop",
+      [
+        mockTokenOne,
+        mockTokenTwo,
+        mockTokenThree,
+        Cl.uint(500),
+        Cl.uint(3000),
+        Cl.uint(100000),
+        Cl.uint(0),
+        Cl.none(),
+      ],
+      bob
+    );
+    expect(result).toBeErr(Cl.uint(210));
+    expect(events.length).toBe(0);
+  });
+
+  it("reverts a multi-hop swap mined after its deadline", () => {
+    const deadline = simnet.blockHeight + 1;
+    simnet.mineEmptyBlocks(3);
+
+    const { result, events } = simnet.callPublicFn(
+      "amm",
+      "swap-3-hop",
+      [
+        mockTokenOne,
+        mockTokenTwo,
+        mockTokenThree,
+        mockTokenFour,
+        Cl.uint(500),
+        Cl.uint(500),
+        Cl.uint(500),
+        Cl.uint(100000),
+        Cl.uint(0),
+        Cl.some(Cl.uint(deadline)),
+      ],
+      bob
+    );
+    expect(result).toBeErr(Cl.uint(212));
+    expect(events.length).toBe(0);
+  });
+});
+
+const flashBorrower = Cl.contractPrincipal(deployer, "flash-borrower");
+const flashBorrowerDefaulter = Cl.contractPrincipal(deployer, "flash-borrower-defaulter");
+
+function flashSwap(
+  account: string,
+  callback: typeof flashBorrower,
+  amount0Out: number,
+  amount1Out: number
+) {
+  return simnet.callPublicFn(
+    "amm",
+    "flash-swap",
+    [
+      mockTokenOne,
+      mockTokenTwo,
+      Cl.uint(500),
+      Cl.uint(amount0Out),
+      Cl.uint(amount1Out),
+      callback,
+      Cl.bufferFromHex(""),
+    ],
+    account
+  );
+}
+
+function poolBalances() {
+  const { result } = simnet.callReadOnlyFn("amm", "get-pool-data", [getPoolId().result], alice);
+  const pool = (result as ResponseOkCV<SomeCV<TupleCV<{ "balance-0": UIntCV; "balance-1": UIntCV }>>>).value.value
+    .value;
+  return {
+    balance0: BigInt(pool["balance-0"].value),
+    balance1: BigInt(pool["balance-1"].value),
+  };
+}
+
+describe("Flash swaps", () => {
+  beforeEach(() => {
+    for (const token of ["mock-token", "mock-token-2"]) {
+      simnet.callPublicFn(token, "mint", [Cl.uint(1_000_000_000), Cl.principal(alice)], alice);
+      // the borrowers pay fees out of their own balance
+      for (const borrower of [flashBorrower, flashBorrowerDefaulter]) {
+        simnet.callPublicFn(token, "mint", [Cl.uint(1_000_000), borrower], alice);
+      }
+    }
+    createPool();
+    addLiquidity(alice, 1000000, 500000);
+  });
+
+  it("lends both tokens and keeps the fees in the pool when repaid with the fee", () => {
+    // the pool's 5% fee on the amount borrowed, rounded up
+    expect(simnet.callReadOnlyFn("amm", "get-flash-fee", [Cl.uint(100000), Cl.uint(500)], bob).result).toBeUint(
+      5000
+    );
+
+    const { result, events } = flashSwap(bob, flashBorrower, 100000, 20000);
+    expect(result).toBeOk(Cl.bool(true));
+    // both loans, then both repayments, then the flash-swap event
+    expect(events[0].data.recipient).toBe(`${deployer}.flash-borrower`);
+    expect(events[0].data.amount).toBe("100000");
+    expect(events[2].data.amount).toBe("105000");
+    expect(events[3].data.amount).toBe("21000");
+
+    const { balance0, balance1 } = poolBalances();
+    expect(balance0).toBe(1005000n);
+    expect(balance1).toBe(501000n);
+    expect(balance0 * balance1 > 1000000n * 500000n).toBe(true);
+  });
+
+  it("reverts when the callback returns the loan without the fee", () => {
+    const { result, events } = flashSwap(bob, flashBorrowerDefaulter, 100000, 0);
+    expect(result).toBeErr(Cl.uint(225));
+    expect(events.length).toBe(0);
+    expect(poolBalances()).toEqual({ balance0: 1000000n, balance1: 500000n });
+  });
+
+  it("accrues the protocol's share of flash swap fees", () => {
+    expect(setProtocolFeeShare(deployer, 5000).result).toBeOk(Cl.bool(true));
+    expect(flashSwap(bob, flashBorrower, 0, 20000).result).toBeOk(Cl.bool(true));
+
+    expect(poolBalances()).toEqual({ balance0: 1000000n, balance1: 500500n });
+    expect(
+      simnet.callReadOnlyFn("amm", "get-protocol-fees", [getPoolId().result], alice).result
+    ).toStrictEqual(Cl.tuple({ "amount-0": Cl.uint(0), "amount-1": Cl.uint(500) }));
+  });
+
+  it("rejects flash swaps of nothing or of a whole reserve", () => {
+    expect(flashSwap(bob, flashBorrower, 0, 0).result).toBeErr(Cl.uint(214));
+    expect(flashSwap(bob, flashBorrower, 1000000, 0).result).toBeErr(Cl.uint(206));
+  });
+
+  it("can't flash swap a paused pool", () => {
+    simnet.callPublicFn("amm", "set-paused", [Cl.bool(true)], deployer);
+    expect(flashSwap(bob, flashBorrower, 1000, 0).result).toBeErr(Cl.uint(227));
+  });
+
+  it("only lets the AMM call the example borrower", () => {
+    const { result } = simnet.callPublicFn(
+      "flash-borrower",
+      "on-flash-swap",
+      [
+        Cl.principal(bob),
+        mockTokenOne,
+        mockTokenTwo,
+        Cl.uint(1000),
+        Cl.uint(0),
+        Cl.uint(5),
+        Cl.uint(0),
+        Cl.bufferFromHex(""),
+      ],
+      bob
+    );
+    expect(result).toBeErr(Cl.uint(300));
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+// The decoders are written against the frontend's @stacks/transactions, whose value shapes differ from the root's
+import { Cl } from "../frontend/node_modules/@stacks/transactions";
+import {
+  ClarityDecodeError,
+  decode,
+  ok,
+  optional,
+  principal,
+  tuple,
+  uint,
+} from "../frontend/lib/clarity-decoders";
+
+const deployer = "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM";
+
+const position = tuple({ owner: principal, liquidity: uint });
+
+// The error thrown by running `fn`, so its fields can be checked
+function decodeError(fn: () => unknown): ClarityDecodeError {
+  try {
+    fn();
+  } catch (err) {
+    expect(err).toBeInstanceOf(ClarityDecodeError);
+    return err as ClarityDecodeError;
+  }
+  throw new Error("Expected a ClarityDecodeError");
+}
+
+describe("Clarity decoders", () => {
+  it("decodes a tuple into plain values", () => {
+    const cv = Cl.tuple({ owner: Cl.principal(deployer), liquidity: Cl.uint(2n ** 100n) });
+    expect(decode(position, cv, "get-position")).toEqual({ owner: deployer, liquidity: 2n ** 100n });
+  });
+
+  it("names a missing tuple field", () => {
+    const err = decodeError(() => decode(position, Cl.tuple({ owner: Cl.principal(deployer) }), "get-position"));
+    expect(err.path).toBe("get-position.liquidity");
+    expect(err.expected).toBe("tuple field");
+  });
+
+  it("unwraps (ok ...) and optionals, with none as null", () => {
+    const result = ok(optional(uint));
+    expect(decode(result, Cl.ok(Cl.some(Cl.uint(7))), "get-value")).toBe(7n);
+    expect(decode(result, Cl.ok(Cl.none()), "get-value")).toBeNull();
+  });
+
+  it("rejects an (err ...) where (ok ...) is expected", () => {
+    const err = decodeError(() => decode(ok(uint), Cl.error(Cl.uint(210)), "get-value"));
+    expect(err.path).toBe("get-value");
+    expect(err.message).toMatch(/^Expected \(ok \.\.\.\) at get-value, got \(response/);
+  });
+
+  it("reports the full path to a mismatched value", () => {
+    const cv = Cl.ok(Cl.some(Cl.tuple({ owner: Cl.principal(deployer), liquidity: Cl.bool(true) })));
+    const err = decodeError(() => decode(ok(optional(position)), cv, "get-position"));
+    expect(err.path).toBe("get-position.ok.some.liquidity");
+    expect(err.message).toBe("Expected uint at get-position.ok.some.liquidity, got bool");
+  });
+});
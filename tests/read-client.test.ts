@@ -0,0 +1,174 @@
+import { describe, expect, it } from "vitest";
+import {
+  createReadClient,
+  ReadClientHttpError,
+  ReadOnlyCall,
+  ReadTransport,
+} from "../frontend/lib/read-client";
+
+const deployer = "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM";
+
+function readCall(functionName: string, args: string[] = []): ReadOnlyCall {
+  return { contract: `${deployer}.amm`, functionName, args, sender: deployer };
+}
+
+// Transport whose responses are settled by hand, recording every request it receives
+function fakeTransport() {
+  const requests: { call: ReadOnlyCall; resolve: (hex: string) => void; reject: (err: unknown) => void }[] = [];
+  const transport: ReadTransport = (call) =>
+    new Promise((resolve, reject) => requests.push({ call, resolve, reject }));
+  return { transport, requests };
+}
+
+// Let pending promise callbacks run
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("read-only call client", () => {
+  it("shares one request between identical calls in flight", async () => {
+    const { transport, requests } = fakeTransport();
+    const client = createReadClient({ transport });
+
+    const first = client.call(readCall("get-pool-data", ["0x01"]));
+    const second = client.call(readCall("get-pool-data", ["0x01"]));
+    const other = client.call(readCall("get-pool-data", ["0x02"]));
+    expect(requests).toHaveLength(2);
+
+    requests[0].resolve("0x0701");
+    requests[1].resolve("0x0702");
+    expect(await first).toBe("0x0701");
+    expect(await second).toBe("0x0701");
+    expect(await other).toBe("0x0702");
+  });
+
+  it("caches results until the TTL runs out or the cache is cleared", async () => {
+    const { transport, requests } = fakeTransport();
+    let time = 0;
+    const client = createReadClient({ transport, ttlMs: 1000, now: () => time });
+
+    const first = client.call(readCall("get-fee-tiers"));
+    requests[0].resolve("0x01");
+    await first;
+
+    time = 999;
+    expect(await client.call(readCall("get-fee-tiers"))).toBe("0x01");
+    expect(requests).toHaveLength(1);
+
+    time = 1000;
+    const expired = client.call(readCall("get-fee-tiers"));
+    expect(requests).toHaveLength(2);
+    requests[1].resolve("0x02");
+    expect(await expired).toBe("0x02");
+
+    client.clear();
+    void client.call(readCall("get-fee-tiers"));
+    expect(requests).toHaveLength(3);
+  });
+
+  it("sweeps out expired results of calls that aren't made again", async () => {
+    const { transport, requests } = fakeTransport();
+    let time = 0;
+    const client = createReadClient({ transport, ttlMs: 1000, now: () => time });
+
+    const reads = [client.call(readCall("get-balance", ["0x01"])), client.call(readCall("get-balance", ["0x02"]))];
+    requests.forEach((request) => request.resolve("0x01"));
+    await Promise.all(reads);
+    expect(client.size()).toBe(2);
+
+    time = 1000;
+    void client.call(readCall("get-fee-tiers"));
+    expect(client.size()).toBe(1);
+  });
+
+  it("never caches failures", async () => {
+    const { transport, requests } = fakeTransport();
+    const client = createReadClient({ transport });
+
+    const failed = client.call(readCall("get-pool-data"));
+    requests[0].reject(new Error("boom"));
+    await expect(failed).rejects.toThrow("boom");
+
+    void client.call(readCall("get-pool-data"));
+    expect(requests).toHaveLength(2);
+  });
+
+  it("runs at most `concurrency` requests at once, in call order", async () => {
+    const { transport, requests } = fakeTransport();
+    const client = createReadClient({ transport, concurrency: 2 });
+
+    const results = [1, 2, 3, 4].map((n) => client.call(readCall(`fn-${n}`)));
+    await flush();
+    expect(requests.map((r) => r.call.functionName)).toEqual(["fn-1", "fn-2"]);
+
+    requests[1].resolve("0x02");
+    await flush();
+    expect(requests.map((r) => r.call.functionName)).toEqual(["fn-1", "fn-2", "fn-3"]);
+
+    requests[0].resolve("0x01");
+    await flush();
+    requests[2].resolve("0x03");
+    requests[3].resolve("0x04");
+    expect(await Promise.all(results)).toEqual(["0x01", "0x02", "0x03", "0x04"]);
+  });
+
+  it("retries 429 and 5xx responses with growing backoff", async () => {
+    const delays: number[] = [];
+    const statuses = [429, 503, 500];
+    let attempts = 0;
+    const client = createReadClient({
+      transport: async () => {
+        const status = statuses[attempts++];
+        if (status) throw new ReadClientHttpError(status, `HTTP ${status}`);
+        return "0x03";
+      },
+      baseDelayMs: 100,
+      sleep: async (ms) => {
+        delays.push(ms);
+      },
+    });
+
+    expect(await client.call(readCall("get-pool-data"))).toBe("0x03");
+    expect(attempts).toBe(4);
+    expect(delays).toHaveLength(3);
+    delays.forEach((delay, i) => {
+      expect(delay).toBeGreaterThanOrEqual(100 * 2 ** i);
+      expect(delay).toBeLessThan(100 * 2 ** i + 100);
+    });
+  });
+
+  it("waits at least as long as Retry-After asks", async () => {
+    const delays: number[] = [];
+    let attempts = 0;
+    const client = createReadClient({
+      transport: async () => {
+        if (attempts++ === 0) throw new ReadClientHttpError(429, "HTTP 429", 5000);
+        return "0x01";
+      },
+      sleep: async (ms) => {
+        delays.push(ms);
+      },
+    });
+
+    await client.call(readCall("get-pool-data"));
+    expect(delays).toEqual([5000]);
+  });
+
+  it("gives up after maxRetries and does not retry client errors", async () => {
+    let attempts = 0;
+    const client = createReadClient({
+      transport: async (call) => {
+        attempts++;
+        const status = call.functionName === "bad-request" ? 400 : 502;
+        throw new ReadClientHttpError(status, `HTTP ${status}`);
+      },
+      maxRetries: 2,
+      sleep: async () => {},
+    });
+
+    await expect(client.call(readCall("flaky"))).rejects.toMatchObject({ status: 502 });
+    expect(attempts).toBe(3);
+
+    attempts = 0;
+    await expect(client.call(readCall("bad-request"))).rejects.toMatchObject({ status: 400 });
+    expect(attempts).toBe(1);
+  });
+});
@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_SETTINGS, sanitizeSettings } from "../frontend/lib/settings";
+
+describe("trade settings", () => {
+  it("keeps values in range", () => {
+    const settings = { slippageBps: 100, deadlineMinutes: 0, priceImpactWarnBps: 500, priceImpactBlockBps: 2000 };
+    expect(sanitizeSettings(settings)).toEqual(settings);
+  });
+
+  it("replaces missing and out-of-range values with the defaults", () => {
+    expect(sanitizeSettings({})).toEqual(DEFAULT_SETTINGS);
+    expect(
+      sanitizeSettings({ slippageBps: 5001, deadlineMinutes: 1.5, priceImpactWarnBps: -1, priceImpactBlockBps: NaN })
+    ).toEqual(DEFAULT_SETTINGS);
+  });
+
+  it("never warns at a higher price impact than it blocks", () => {
+    expect(sanitizeSettings({ priceImpactWarnBps: 2000, priceImpactBlockBps: 1000 })).toMatchObject({
+      priceImpactWarnBps: 1000,
+      priceImpactBlockBps: 1000,
+    });
+    // Also when the block threshold falls back to its default
+    expect(sanitizeSettings({ priceImpactWarnBps: 5000 }).priceImpactWarnBps).toBe(
+      DEFAULT_SETTINGS.priceImpactBlockBps
+    );
+  });
+});